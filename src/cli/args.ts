@@ -0,0 +1,317 @@
+import {
+  isColor,
+  parseSizeList,
+  type CliPreset,
+  type FitMode,
+  type ManifestOptions,
+  type PngOutputSpec,
+} from "./core";
+
+export interface CliArgs {
+  command?: "inspect";
+  inspectPath?: string;
+  help: boolean;
+  version: boolean;
+  yes: boolean;
+  recursive: boolean;
+  /** Generate a set for every image in the source directory */
+  batch: boolean;
+  /** Maximum number of sources generated at once in batch mode */
+  concurrency?: number;
+  /** Regenerate whenever the source file or config file changes */
+  watch: boolean;
+  /** Print a JSON report to stdout instead of the interactive output; implies `yes` */
+  json: boolean;
+  /** File to write the JSON report to */
+  report?: string;
+  /** Config file path, or false to skip looking for one */
+  config?: string | false;
+  source?: string;
+  output?: string;
+  preset?: CliPreset;
+  /** ICO/CUR entry to render instead of the largest one */
+  frame?: number;
+  baseName?: string;
+  fit?: FitMode;
+  /** Padding color for `contain` fitting */
+  background?: string;
+  pngSizes?: number[];
+  icoSizes?: number[];
+  /** PNG files replacing the preset's, only set by a config file */
+  pngOutputs?: PngOutputSpec[];
+  /** Each boolean below is undefined unless set by `--flag` or `--no-flag` */
+  overwrite?: boolean;
+  html?: boolean;
+  manifest?: boolean;
+  icns?: boolean;
+  maskable?: boolean;
+  maskableBackground?: string;
+  /** Only set by a config file */
+  maskableSafeZone?: number;
+  /** Only set by a config file */
+  maskableSizes?: number[];
+  /** Only set by a config file */
+  manifestFilename?: string;
+  /** Manifest fields set by flags; the rest are prompted for or defaulted */
+  manifestOptions: Partial<ManifestOptions>;
+}
+
+const PRESETS: CliPreset[] = ["default", "web-app", "apple-android", "custom"];
+const FIT_MODES: FitMode[] = ["cover", "contain"];
+const DISPLAY_MODES: ManifestOptions["display"][] = [
+  "standalone",
+  "minimal-ui",
+  "fullscreen",
+  "browser",
+];
+
+const TOGGLES = {
+  "--overwrite": "overwrite",
+  "--html": "html",
+  "--manifest": "manifest",
+  "--icns": "icns",
+  "--maskable": "maskable",
+} as const satisfies Record<string, keyof CliArgs>;
+
+/**
+ * Parses command line arguments. Every `--flag value` may also be written as
+ * `--flag=value`, and toggles accept a `--no-` prefix.
+ * @param argv - Arguments without the node and script paths.
+ * @returns The parsed arguments.
+ * @throws {Error} If a flag is unknown, lacks its value, has a malformed
+ * value or conflicts with another flag.
+ */
+export function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = {
+    help: false,
+    version: false,
+    yes: false,
+    recursive: false,
+    batch: false,
+    watch: false,
+    json: false,
+    manifestOptions: {},
+  };
+
+  let startIndex = 0;
+  if (argv[0] === "inspect") {
+    args.command = "inspect";
+    args.inspectPath = argv[1]?.startsWith("-") ? undefined : argv[1];
+    startIndex = args.inspectPath ? 2 : 1;
+  }
+
+  for (let index = startIndex; index < argv.length; index++) {
+    const arg = argv[index];
+    const separator = arg.startsWith("--") ? arg.indexOf("=") : -1;
+    const flag = separator === -1 ? arg : arg.slice(0, separator);
+    const inlineValue = separator === -1 ? undefined : arg.slice(separator + 1);
+
+    const takeValue = (): string => {
+      const value = inlineValue ?? argv[++index];
+      if (value === undefined || value === "" || value.startsWith("--")) {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return value;
+    };
+    const takeChoice = <T extends string>(choices: readonly T[]): T => {
+      const value = takeValue();
+      if (!choices.includes(value as T)) {
+        throw new Error(
+          `Invalid value for ${flag}: "${value}" (expected ${choices.join(" | ")})`,
+        );
+      }
+      return value as T;
+    };
+    const takeColor = (): string => {
+      const value = takeValue();
+      if (!isColor(value)) {
+        throw new Error(
+          `Invalid value for ${flag}: "${value}" (expected a CSS color such as #0f172a or navy)`,
+        );
+      }
+      return value;
+    };
+
+    if (!flag.startsWith("-")) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+
+    const toggle = flag.replace(/^--no-/, "--");
+    if (toggle in TOGGLES) {
+      if (inlineValue !== undefined) {
+        throw new Error(`${flag} does not take a value`);
+      }
+      args[TOGGLES[toggle as keyof typeof TOGGLES]] = toggle === flag;
+      continue;
+    }
+
+    switch (flag) {
+      case "--help":
+      case "-h":
+        args.help = true;
+        break;
+      case "--version":
+      case "-v":
+        args.version = true;
+        break;
+      case "--yes":
+      case "-y":
+        args.yes = true;
+        break;
+      case "--recursive":
+        args.recursive = true;
+        break;
+      case "--batch":
+        args.batch = true;
+        break;
+      case "--watch":
+        args.watch = true;
+        break;
+      case "--json":
+        args.json = true;
+        break;
+      case "--report":
+        args.report = takeValue();
+        break;
+      case "--concurrency":
+        args.concurrency = parseInteger(flag, takeValue());
+        if (args.concurrency === 0) {
+          throw new Error("--concurrency must be at least 1");
+        }
+        break;
+      case "--config":
+        args.config = takeValue();
+        break;
+      case "--no-config":
+        args.config = false;
+        break;
+      case "--source":
+        args.source = takeValue();
+        break;
+      case "--output":
+        args.output = takeValue();
+        break;
+      case "--preset":
+        args.preset = takeChoice(PRESETS);
+        break;
+      case "--frame":
+        args.frame = parseInteger(flag, takeValue());
+        break;
+      case "--base-name":
+        args.baseName = takeValue();
+        break;
+      case "--fit":
+        args.fit = takeChoice(FIT_MODES);
+        break;
+      case "--background":
+        args.background = takeColor();
+        break;
+      case "--png-sizes":
+        args.pngSizes = parseSizes(flag, takeValue(), 1024);
+        break;
+      case "--ico-sizes":
+        args.icoSizes = parseSizes(flag, takeValue(), 256);
+        break;
+      case "--maskable-background":
+        args.maskableBackground = takeColor();
+        break;
+      case "--manifest-name":
+        args.manifestOptions.name = takeValue();
+        break;
+      case "--manifest-short-name":
+        args.manifestOptions.shortName = takeValue();
+        break;
+      case "--theme-color":
+        args.manifestOptions.themeColor = takeColor();
+        break;
+      case "--manifest-background":
+        args.manifestOptions.backgroundColor = takeColor();
+        break;
+      case "--display":
+        args.manifestOptions.display = takeChoice(DISPLAY_MODES);
+        break;
+      case "--start-url":
+        args.manifestOptions.startUrl = takeValue();
+        break;
+      default:
+        throw new Error(`Unknown option: ${flag}`);
+    }
+  }
+
+  validateArgs(args);
+  return args;
+}
+
+/**
+ * Checks flags that depend on each other, filling in the ones they imply.
+ * Also run on the arguments merged with a config file.
+ * @throws {Error} If two arguments conflict.
+ */
+export function validateArgs(args: CliArgs): void {
+  if (args.concurrency !== undefined && !args.batch) {
+    throw new Error("--concurrency requires --batch");
+  }
+
+  if (args.watch && args.batch) {
+    throw new Error("--watch cannot be used with --batch");
+  }
+
+  if (args.watch && (args.json || args.report !== undefined)) {
+    throw new Error("--json and --report cannot be used with --watch");
+  }
+
+  if (args.json) {
+    args.yes = true;
+  }
+
+  if (args.frame !== undefined && args.batch) {
+    throw new Error("--frame cannot be used with --batch");
+  }
+
+  if (args.pngSizes || args.icoSizes) {
+    if (args.preset && args.preset !== "custom") {
+      throw new Error("--png-sizes and --ico-sizes require --preset custom");
+    }
+    args.preset = "custom";
+  }
+
+  if (args.background !== undefined && args.fit === "cover") {
+    throw new Error("--background only applies to --fit contain");
+  }
+
+  if (args.maskableBackground !== undefined) {
+    if (args.maskable === false) {
+      throw new Error(
+        "--maskable-background cannot be used with --no-maskable",
+      );
+    }
+    args.maskable = true;
+  }
+
+  if (args.manifest === false && Object.keys(args.manifestOptions).length > 0) {
+    throw new Error("Manifest fields cannot be used with --no-manifest");
+  }
+}
+
+function parseInteger(flag: string, value: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${flag} must be a non-negative integer, got "${value}"`);
+  }
+  return Number(value);
+}
+
+/**
+ * Parses a size list strictly: unlike the prompts, which drop invalid
+ * entries, a flag with any invalid entry is rejected.
+ */
+function parseSizes(flag: string, value: string, max: number): number[] {
+  for (const entry of value.split(",")) {
+    const size = Number(entry.trim());
+    if (!/^\d+$/.test(entry.trim()) || size < 1 || size > max) {
+      throw new Error(
+        `Invalid size "${entry.trim()}" in ${flag} (expected integers from 1 to ${max})`,
+      );
+    }
+  }
+  return parseSizeList(value);
+}
@@ -0,0 +1,320 @@
+import { readFile, stat } from "node:fs/promises";
+import { basename, extname, join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { validateArgs, type CliArgs } from "./args";
+import { isColor, isExternalImageUrl } from "./core";
+import type { FaviumConfig } from "../types";
+
+/** Config file names looked up in the working directory, in order */
+export const CONFIG_FILENAMES = [
+  "favium.config.json",
+  "favium.config.js",
+  "favium.config.mjs",
+  "favium.config.cjs",
+  "favium.config.ts",
+];
+
+/** Pushes a message for every problem found at `path` */
+type Validator = (value: unknown, path: string, errors: string[]) => void;
+
+const nonEmptyString: Validator = (value, path, errors) => {
+  if (typeof value !== "string" || value.trim() === "") {
+    errors.push(`${path} must be a non-empty string`);
+  }
+};
+
+const color: Validator = (value, path, errors) => {
+  if (typeof value !== "string" || !isColor(value)) {
+    errors.push(`${path} must be a CSS color such as #0f172a or navy`);
+  }
+};
+
+const boolean: Validator = (value, path, errors) => {
+  if (typeof value !== "boolean") {
+    errors.push(`${path} must be true or false`);
+  }
+};
+
+const oneOf =
+  (choices: readonly string[]): Validator =>
+  (value, path, errors) => {
+    if (!choices.includes(value as string)) {
+      errors.push(
+        `${path} must be one of ${choices.map((choice) => `"${choice}"`).join(", ")}`,
+      );
+    }
+  };
+
+const integer =
+  (min: number, max: number): Validator =>
+  (value, path, errors) => {
+    if (
+      !Number.isInteger(value) ||
+      (value as number) < min ||
+      (value as number) > max
+    ) {
+      errors.push(`${path} must be an integer from ${min} to ${max}`);
+    }
+  };
+
+const fraction: Validator = (value, path, errors) => {
+  if (typeof value !== "number" || !(value > 0 && value <= 1)) {
+    errors.push(`${path} must be a number greater than 0 and at most 1`);
+  }
+};
+
+const listOf =
+  (item: Validator): Validator =>
+  (value, path, errors) => {
+    if (!Array.isArray(value) || value.length === 0) {
+      errors.push(`${path} must be a non-empty array`);
+      return;
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, errors));
+  };
+
+const object =
+  (shape: Record<string, Validator>, required: string[] = []): Validator =>
+  (value, path, errors) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      errors.push(`${path || "The config"} must be an object`);
+      return;
+    }
+
+    const prefix = path ? `${path}.` : "";
+    for (const key of required) {
+      if (!(key in value)) {
+        errors.push(`${prefix}${key} is required`);
+      }
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      const validate = shape[key];
+      if (!validate) {
+        errors.push(
+          `${prefix}${key} is not a known option (expected one of ${Object.keys(shape).join(", ")})`,
+        );
+      } else if (entry !== undefined) {
+        validate(entry, `${prefix}${key}`, errors);
+      }
+    }
+  };
+
+const booleanOr =
+  (validate: Validator): Validator =>
+  (value, path, errors) => {
+    if (typeof value !== "boolean") validate(value, path, errors);
+  };
+
+const CONFIG_SCHEMA = object({
+  $schema: nonEmptyString,
+  source: nonEmptyString,
+  frame: integer(0, 65535),
+  output: nonEmptyString,
+  baseName: nonEmptyString,
+  preset: oneOf(["default", "web-app", "apple-android", "custom"]),
+  pngOutputs: listOf(
+    object(
+      {
+        size: integer(1, 1024),
+        filename: nonEmptyString,
+        rel: oneOf(["icon", "apple-touch-icon"]),
+        manifest: boolean,
+        purpose: oneOf(["any", "maskable"]),
+      },
+      ["size", "filename"],
+    ),
+  ),
+  icoSizes: listOf(integer(1, 256)),
+  fit: oneOf(["cover", "contain"]),
+  background: color,
+  overwrite: boolean,
+  html: boolean,
+  manifest: booleanOr(
+    object({
+      name: nonEmptyString,
+      shortName: nonEmptyString,
+      backgroundColor: color,
+      themeColor: color,
+      display: oneOf(["standalone", "minimal-ui", "fullscreen", "browser"]),
+      startUrl: nonEmptyString,
+    }),
+  ),
+  manifestFilename: nonEmptyString,
+  icns: boolean,
+  maskable: booleanOr(
+    object({
+      sizes: listOf(integer(1, 1024)),
+      backgroundColor: color,
+      safeZone: fraction,
+    }),
+  ),
+});
+
+/**
+ * Checks a parsed config against the schema.
+ * @param value - Parsed config file contents.
+ * @param label - File name used in error messages.
+ * @returns The config.
+ * @throws {Error} Listing every invalid field.
+ */
+export function validateConfig(value: unknown, label: string): FaviumConfig {
+  const errors: string[] = [];
+  CONFIG_SCHEMA(value, "", errors);
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${label}:\n${errors.map((error) => `  - ${error}`).join("\n")}`,
+    );
+  }
+
+  return value as FaviumConfig;
+}
+
+/**
+ * Looks for a config file in a directory.
+ * @param directory - Directory to search, usually the working directory.
+ * @returns The path of the first existing config file, if any.
+ */
+export async function findConfigFile(
+  directory: string,
+): Promise<string | undefined> {
+  for (const filename of CONFIG_FILENAMES) {
+    const filePath = join(directory, filename);
+    try {
+      if ((await stat(filePath)).isFile()) return filePath;
+    } catch {
+      // Not there, try the next name
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads and validates a config file. JavaScript and TypeScript files must
+ * default-export the config; TypeScript needs a Node.js version that strips
+ * types natively.
+ * @param filePath - Path of the config file.
+ * @returns The validated config.
+ * @throws {Error} If the file cannot be read or parsed, or is invalid.
+ */
+export async function loadConfig(filePath: string): Promise<FaviumConfig> {
+  const absolutePath = resolve(filePath);
+  const label = basename(absolutePath);
+  const extension = extname(absolutePath).toLowerCase();
+
+  if (extension === ".json") {
+    const contents = await readFile(absolutePath, "utf8");
+    try {
+      return validateConfig(JSON.parse(contents), label);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(`Invalid JSON in ${label}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  let module: { default?: unknown };
+  try {
+    module = await import(pathToFileURL(absolutePath).href);
+  } catch (error) {
+    if (
+      extension === ".ts" &&
+      error instanceof Error &&
+      "code" in error &&
+      error.code === "ERR_UNKNOWN_FILE_EXTENSION"
+    ) {
+      throw new Error(
+        `Loading ${label} requires Node.js 22.18 or later. Use favium.config.json or favium.config.js instead.`,
+      );
+    }
+    throw new Error(
+      `Failed to load ${label}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (module.default === undefined) {
+    throw new Error(`${label} must have a default export`);
+  }
+
+  return validateConfig(module.default, label);
+}
+
+/**
+ * Fills the arguments not given on the command line from a config file.
+ * Relative paths are resolved against the config file's directory. Preset,
+ * `--png-sizes` and `--ico-sizes` flags replace the config's outputs, and
+ * `--fit cover`, `--no-manifest` and `--no-maskable` drop the config options
+ * they turn off.
+ * @param args - Parsed command line arguments.
+ * @param config - Validated config.
+ * @param configDir - Directory containing the config file.
+ * @returns The merged arguments.
+ * @throws {Error} If the merged arguments conflict.
+ */
+export function applyConfig(
+  args: CliArgs,
+  config: FaviumConfig,
+  configDir: string,
+): CliArgs {
+  const { manifest } = config;
+  const maskable = args.maskable === false ? undefined : config.maskable;
+  const usesOutputFlags =
+    args.preset !== undefined ||
+    args.pngSizes !== undefined ||
+    args.icoSizes !== undefined;
+
+  const merged: CliArgs = {
+    ...args,
+    source:
+      args.source ??
+      (config.source === undefined || isExternalImageUrl(config.source)
+        ? config.source
+        : resolve(configDir, config.source)),
+    frame: args.frame ?? config.frame,
+    output:
+      args.output ??
+      (config.output === undefined
+        ? undefined
+        : resolve(configDir, config.output)),
+    baseName: args.baseName ?? config.baseName,
+    preset: args.preset ?? config.preset,
+    pngOutputs: usesOutputFlags ? undefined : config.pngOutputs,
+    icoSizes: args.icoSizes ?? (usesOutputFlags ? undefined : config.icoSizes),
+    fit: args.fit ?? config.fit,
+    background:
+      args.background ?? (args.fit === "cover" ? undefined : config.background),
+    overwrite: args.overwrite ?? config.overwrite,
+    html: args.html ?? config.html,
+    manifest:
+      args.manifest ?? (manifest === undefined ? undefined : !!manifest),
+    manifestFilename: args.manifestFilename ?? config.manifestFilename,
+    manifestOptions: {
+      ...(typeof manifest === "object" && args.manifest !== false
+        ? manifest
+        : {}),
+      ...args.manifestOptions,
+    },
+    icns: args.icns ?? config.icns,
+    maskable:
+      args.maskable ?? (maskable === undefined ? undefined : !!maskable),
+    maskableBackground:
+      args.maskableBackground ??
+      (typeof maskable === "object" ? maskable.backgroundColor : undefined),
+    maskableSafeZone:
+      typeof maskable === "object" ? maskable.safeZone : undefined,
+    maskableSizes: typeof maskable === "object" ? maskable.sizes : undefined,
+  };
+
+  try {
+    validateArgs(merged);
+  } catch (error) {
+    throw new Error(
+      `Config and flags conflict: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return merged;
+}
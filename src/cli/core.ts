@@ -1,12 +1,53 @@
+import { createHash } from "node:crypto";
+import { watch, type FSWatcher } from "node:fs";
 import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
-import { basename, dirname, extname, join, relative, resolve } from "node:path";
+import { availableParallelism } from "node:os";
+import {
+  basename,
+  dirname,
+  extname,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "node:path";
 
 import pngToIco from "png-to-ico";
 import sharp from "sharp";
 
+import {
+  DEFAULT_MASKABLE_SIZES,
+  DEFAULT_SAFE_ZONE,
+} from "../composer/maskable";
+import IcoDecoder from "../decoders/ico";
+import Icns, { ICNS_OS_TYPE_SIZES, isIcnsOsType } from "../generators/icns";
+import {
+  createManifestOptions,
+  getPresetBlueprint,
+  renderHtmlSnippet,
+  renderManifest,
+} from "../presets";
+import type {
+  IcnsOsType,
+  IcoFileInfo,
+  MaskableOptions,
+  PackageLayout,
+  PackagePreset,
+} from "../types";
+
+export {
+  DEFAULT_MASKABLE_SIZES,
+  DEFAULT_SAFE_ZONE,
+  createManifestOptions,
+  getPresetBlueprint,
+  renderHtmlSnippet,
+  renderManifest,
+};
+export type { ManifestOptions, PngOutputSpec } from "../types";
+
 export type SourceKind = "current-dir" | "custom-path" | "external-url";
 export type FitMode = "cover" | "contain";
-export type CliPreset = "default" | "web-app" | "apple-android" | "custom";
+export type CliPreset = PackagePreset;
 
 export interface LoadedImageSource {
   kind: SourceKind;
@@ -19,50 +60,96 @@ export interface LoadedImageSource {
   sizeBytes: number;
   suggestedBaseName: string;
   directory?: string;
+  /** Directory index of the decoded entry when the source is an ICO or CUR file */
+  frame?: number;
 }
 
-export interface PngOutputSpec {
-  size: number;
-  filename: string;
-  rel?: "icon" | "apple-touch-icon";
-  manifest?: boolean;
-  purpose?: "any" | "maskable";
-}
-
-export interface ManifestOptions {
-  name: string;
-  shortName: string;
-  backgroundColor: string;
-  themeColor: string;
-  display: "standalone" | "fullscreen" | "minimal-ui" | "browser";
-  startUrl: string;
+export interface ImageLoadOptions {
+  /** ICO/CUR entry to use instead of the automatically picked best entry */
+  frame?: number;
 }
 
-export interface CliGenerationPlan {
-  baseName: string;
+export interface CliGenerationPlan extends PackageLayout {
   outputDir: string;
   fit: FitMode;
   background: string;
   overwrite: boolean;
-  icoSizes: number[];
-  pngOutputs: PngOutputSpec[];
-  htmlSnippet: boolean;
-  manifest: boolean;
-  manifestFilename: string;
-  manifestOptions?: ManifestOptions;
+  /** Also write `<baseName>.icns` with the ic07-ic14 PNG-backed entries */
+  icns?: boolean;
 }
 
 export interface GeneratedArtifact {
-  type: "ico" | "png" | "html" | "manifest";
+  type: "ico" | "icns" | "png" | "html" | "manifest";
+  filePath: string;
+}
+
+/** A loaded source without its image data */
+export type SourceMetadata = Omit<LoadedImageSource, "buffer">;
+
+export interface ArtifactReport extends GeneratedArtifact {
+  /** File size in bytes */
+  byteSize: number;
+  mimeType: string;
+  /** Size of every image in the file, in file order; empty for text files */
+  dimensions: Array<{ width: number; height: number }>;
+  /** Hex digest of the file contents */
+  sha256: string;
+}
+
+export interface GenerationReport {
+  source: SourceMetadata;
+  plan: CliGenerationPlan;
+  artifacts: ArtifactReport[];
+}
+
+export interface BatchReport {
+  /** Directory the sources were collected from */
+  root: string;
+  results: Array<
+    Omit<BatchResult, "artifacts"> & { artifacts: ArtifactReport[] }
+  >;
+}
+
+export interface WatchOptions {
+  /** Quiet period after the last change before `onChange` runs (default: 200) */
+  debounceMs?: number;
+}
+
+export interface BatchOptions {
+  /** Directory scanned for sources; mirrored below `outputRoot` */
+  root: string;
+  /** Directory receiving the per-source subdirectories (default: beside each source) */
+  outputRoot?: string;
+  /** Maximum number of sources generated at once (default: up to 4, one per CPU) */
+  concurrency?: number;
+  /** Called as each source finishes, in completion order */
+  onResult?: (
+    result: BatchResult,
+    progress: { done: number; total: number },
+  ) => void;
+}
+
+export interface BatchResult {
+  /** Absolute path of the source image */
   filePath: string;
+  /** Directory the source's set was written to */
+  outputDir: string;
+  /** Files written for the source, empty when it failed */
+  artifacts: GeneratedArtifact[];
+  /** The loaded source, unless it failed to load */
+  source?: SourceMetadata;
+  /** The plan the set was generated with, unless the source failed to load */
+  plan?: CliGenerationPlan;
+  /** Why the source failed */
+  error?: string;
 }
 
-const DEFAULT_ICO_SIZES = [16, 32, 48];
-const DEFAULT_PNG_SIZES = [16, 32, 150, 180, 192, 512];
 const SUPPORTED_IMAGE_EXTENSIONS = new Set([
   ".avif",
+  ".cur",
   ".gif",
   ".heic",
+  ".ico",
   ".jpeg",
   ".jpg",
   ".png",
@@ -72,10 +159,31 @@ const SUPPORTED_IMAGE_EXTENSIONS = new Set([
   ".webp",
 ]);
 
+const ARTIFACT_MIME_TYPES: Record<GeneratedArtifact["type"], string> = {
+  ico: "image/x-icon",
+  icns: "image/icns",
+  png: "image/png",
+  html: "text/html",
+  manifest: "application/manifest+json",
+};
+
 export function isSupportedImagePath(filePath: string): boolean {
   return SUPPORTED_IMAGE_EXTENSIONS.has(extname(filePath).toLowerCase());
 }
 
+/**
+ * Checks a color with the parser sharp uses for backgrounds: hex, `rgb()`,
+ * `hsl()` and named CSS colors.
+ */
+export function isColor(value: string): boolean {
+  try {
+    sharp({ create: { width: 1, height: 1, channels: 4, background: value } });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export function parseSizeList(input: string): number[] {
   const values = input
     .split(",")
@@ -121,12 +229,13 @@ export function isExternalImageUrl(value: string): boolean {
 
 export async function loadImageFromPath(
   filePath: string,
+  options: ImageLoadOptions = {},
 ): Promise<LoadedImageSource> {
   const absolutePath = resolve(filePath);
   const buffer = await readFile(absolutePath);
-  const metadata = await sharp(buffer, { animated: true }).metadata();
+  const image = await decodeSourceImage(buffer, options);
 
-  if (!metadata.width || !metadata.height || !metadata.format) {
+  if (!image) {
     throw new Error(`Unsupported image file: ${absolutePath}`);
   }
 
@@ -134,10 +243,7 @@ export async function loadImageFromPath(
     kind: "custom-path",
     label: relative(process.cwd(), absolutePath) || basename(absolutePath),
     origin: absolutePath,
-    buffer,
-    width: metadata.width,
-    height: metadata.height,
-    format: metadata.format,
+    ...image,
     sizeBytes: buffer.byteLength,
     suggestedBaseName: sanitizeBaseName(
       basename(absolutePath, extname(absolutePath)),
@@ -148,6 +254,7 @@ export async function loadImageFromPath(
 
 export async function loadImageFromUrl(
   url: string,
+  options: ImageLoadOptions = {},
 ): Promise<LoadedImageSource> {
   const response = await fetch(url);
 
@@ -165,9 +272,9 @@ export async function loadImageFromUrl(
   }
 
   const buffer = Buffer.from(await response.arrayBuffer());
-  const metadata = await sharp(buffer, { animated: true }).metadata();
+  const image = await decodeSourceImage(buffer, options);
 
-  if (!metadata.width || !metadata.height || !metadata.format) {
+  if (!image) {
     throw new Error(`Unsupported image payload from ${url}`);
   }
 
@@ -179,15 +286,36 @@ export async function loadImageFromUrl(
     kind: "external-url",
     label: url,
     origin: url,
-    buffer,
-    width: metadata.width,
-    height: metadata.height,
-    format: metadata.format,
+    ...image,
     sizeBytes: buffer.byteLength,
     suggestedBaseName: sanitizeBaseName(rawName),
   };
 }
 
+/**
+ * Picks the entry to render from an ICO or CUR file: the largest image,
+ * preferring higher bit depths and PNG payloads on ties.
+ */
+export function selectIconFrame(info: IcoFileInfo): number {
+  const [best] = [...info.entries].sort(
+    (left, right) =>
+      right.width * right.height - left.width * left.height ||
+      right.bitDepth - left.bitDepth ||
+      Number(right.encoding === "png") - Number(left.encoding === "png"),
+  );
+
+  return best.index;
+}
+
+export function isIconBuffer(buffer: Buffer): boolean {
+  return (
+    buffer.byteLength >= 6 &&
+    buffer.readUInt16LE(0) === 0 &&
+    (buffer.readUInt16LE(2) === 1 || buffer.readUInt16LE(2) === 2) &&
+    buffer.readUInt16LE(4) > 0
+  );
+}
+
 export function sanitizeBaseName(value: string): string {
   const sanitized = value
     .trim()
@@ -198,154 +326,55 @@ export function sanitizeBaseName(value: string): string {
   return sanitized || "favicon";
 }
 
-export function getPresetBlueprint(
-  preset: CliPreset,
-  baseName: string,
-  pngSizes: number[] = DEFAULT_PNG_SIZES,
-  icoSizes: number[] = DEFAULT_ICO_SIZES,
-): Pick<
-  CliGenerationPlan,
-  "icoSizes" | "pngOutputs" | "htmlSnippet" | "manifest" | "manifestFilename"
-> {
-  if (preset === "custom") {
-    return {
-      icoSizes,
-      pngOutputs: pngSizes.map((size) => ({
-        size,
-        filename: `${baseName}-${size}x${size}.png`,
-        rel:
-          size === 180 ? "apple-touch-icon" : size <= 64 ? "icon" : undefined,
-        manifest: size === 192 || size === 512,
-      })),
-      htmlSnippet: true,
-      manifest: pngSizes.includes(192) || pngSizes.includes(512),
-      manifestFilename: "manifest.webmanifest",
-    };
-  }
-
-  if (preset === "apple-android") {
-    return {
-      icoSizes: [16, 32, 48],
-      pngOutputs: [
-        {
-          size: 180,
-          filename: "apple-touch-icon.png",
-          rel: "apple-touch-icon",
-        },
-        { size: 192, filename: "android-chrome-192x192.png", manifest: true },
-        { size: 512, filename: "android-chrome-512x512.png", manifest: true },
-      ],
-      htmlSnippet: true,
-      manifest: true,
-      manifestFilename: "manifest.webmanifest",
-    };
-  }
-
-  if (preset === "web-app") {
-    return {
-      icoSizes: [16, 32, 48, 64, 256],
-      pngOutputs: [
-        { size: 16, filename: "favicon-16x16.png", rel: "icon" },
-        { size: 32, filename: "favicon-32x32.png", rel: "icon" },
-        { size: 64, filename: `${baseName}-64x64.png` },
-        { size: 128, filename: `${baseName}-128x128.png` },
-        {
-          size: 180,
-          filename: "apple-touch-icon.png",
-          rel: "apple-touch-icon",
-        },
-        { size: 192, filename: "android-chrome-192x192.png", manifest: true },
-        { size: 256, filename: "android-chrome-256x256.png" },
-        { size: 512, filename: "android-chrome-512x512.png", manifest: true },
-      ],
-      htmlSnippet: true,
-      manifest: true,
-      manifestFilename: "manifest.webmanifest",
-    };
-  }
-
-  return {
-    icoSizes: DEFAULT_ICO_SIZES,
-    pngOutputs: [
-      { size: 16, filename: "favicon-16x16.png", rel: "icon" },
-      { size: 32, filename: "favicon-32x32.png", rel: "icon" },
-      { size: 150, filename: "mstile-150x150.png" },
-      { size: 180, filename: "apple-touch-icon.png", rel: "apple-touch-icon" },
-      { size: 192, filename: "android-chrome-192x192.png", manifest: true },
-      { size: 512, filename: "android-chrome-512x512.png", manifest: true },
-    ],
-    htmlSnippet: true,
-    manifest: true,
-    manifestFilename: "manifest.webmanifest",
-  };
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
-export function renderHtmlSnippet(plan: CliGenerationPlan): string {
-  const lines: string[] = [];
+export async function inspectIconFile(filePath: string): Promise<IcoFileInfo> {
+  const absolutePath = resolve(filePath);
+  const buffer = await readFile(absolutePath);
 
-  if (plan.icoSizes.length > 0) {
-    lines.push(`<link rel="icon" href="./${plan.baseName}.ico" sizes="any">`);
+  try {
+    return new IcoDecoder(buffer).inspect();
+  } catch (error) {
+    throw new Error(
+      `${error instanceof Error ? error.message : "Invalid ICO file"} (${absolutePath})`,
+    );
   }
+}
 
-  for (const output of plan.pngOutputs) {
-    if (output.rel === "icon") {
-      lines.push(
-        `<link rel="icon" type="image/png" sizes="${output.size}x${output.size}" href="./${output.filename}">`,
-      );
+export function formatIconInspection(label: string, info: IcoFileInfo): string {
+  const lines = [
+    `File: ${label}`,
+    `Type: ${info.type === "icon" ? "ICO" : "CUR"} (${info.entries.length} ${info.entries.length === 1 ? "entry" : "entries"})`,
+  ];
+
+  for (const entry of info.entries) {
+    const details = [
+      `${entry.width}x${entry.height}`,
+      `${entry.bitDepth}-bit`,
+      entry.encoding.toUpperCase(),
+      formatBytes(entry.byteSize),
+    ];
+
+    if (entry.colorCount > 0) {
+      details.push(`${entry.colorCount} colors`);
     }
-
-    if (output.rel === "apple-touch-icon") {
-      lines.push(
-        `<link rel="apple-touch-icon" sizes="${output.size}x${output.size}" href="./${output.filename}">`,
-      );
+    if (entry.hotspot) {
+      details.push(`hotspot ${entry.hotspot.x},${entry.hotspot.y}`);
     }
-  }
 
-  if (plan.manifest) {
-    lines.push(`<link rel="manifest" href="./${plan.manifestFilename}">`);
+    lines.push(`#${entry.index}: ${details.join(", ")}`);
   }
 
   return lines.join("\n");
 }
 
-export function renderManifest(plan: CliGenerationPlan): string {
-  if (!plan.manifestOptions) {
-    throw new Error(
-      "Manifest options are required when manifest generation is enabled",
-    );
-  }
-
-  const icons = plan.pngOutputs
-    .filter((output) => output.manifest)
-    .map((output) => ({
-      src: `./${output.filename}`,
-      sizes: `${output.size}x${output.size}`,
-      type: "image/png",
-      purpose: output.purpose ?? "any",
-    }));
-
-  return JSON.stringify(
-    {
-      name: plan.manifestOptions.name,
-      short_name: plan.manifestOptions.shortName,
-      start_url: plan.manifestOptions.startUrl,
-      display: plan.manifestOptions.display,
-      background_color: plan.manifestOptions.backgroundColor,
-      theme_color: plan.manifestOptions.themeColor,
-      icons,
-    },
-    null,
-    2,
-  );
-}
-
-export function formatBytes(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-}
-
-export function getSuggestedOutputDirectory(source: LoadedImageSource): string {
+export function getSuggestedOutputDirectory(
+  source: Pick<LoadedImageSource, "directory" | "suggestedBaseName">,
+): string {
   return resolve(source.directory ?? process.cwd(), source.suggestedBaseName);
 }
 
@@ -355,11 +384,13 @@ export function summarizePlan(
 ): string {
   return [
     `Source: ${source.label}`,
-    `Image: ${source.width}x${source.height} ${source.format.toUpperCase()} (${formatBytes(source.sizeBytes)})`,
+    `Image: ${source.width}x${source.height} ${source.format.toUpperCase()}${source.frame !== undefined ? ` frame #${source.frame}` : ""} (${formatBytes(source.sizeBytes)})`,
     `Output: ${plan.outputDir}`,
     `ICO sizes: ${plan.icoSizes.length > 0 ? plan.icoSizes.join(", ") : "none"}`,
+    `ICNS: ${plan.icns ? "yes" : "no"}`,
     `PNG files: ${plan.pngOutputs.map((output) => `${output.filename} (${output.size})`).join(", ")}`,
     `Fit: ${plan.fit}${plan.fit === "contain" ? ` on ${plan.background}` : ""}`,
+    `Maskable: ${plan.maskableOptions ? `yes, on ${plan.maskableOptions.backgroundColor}` : "no"}`,
     `HTML snippet: ${plan.htmlSnippet ? "yes" : "no"}`,
     `Manifest: ${plan.manifest ? "yes" : "no"}`,
   ].join("\n");
@@ -372,12 +403,23 @@ export async function generateArtifacts(
   await mkdir(plan.outputDir, { recursive: true });
   const artifacts: GeneratedArtifact[] = [];
   const pngCache = new Map<number, Buffer>();
+  const renderCachedPng = async (size: number): Promise<Buffer> => {
+    const pngBuffer =
+      pngCache.get(size) ??
+      (await renderPng(source.buffer, size, plan.fit, plan.background));
+    pngCache.set(size, pngBuffer);
+    return pngBuffer;
+  };
 
   for (const output of plan.pngOutputs) {
     const pngBuffer =
-      pngCache.get(output.size) ??
-      (await renderPng(source.buffer, output.size, plan.fit, plan.background));
-    pngCache.set(output.size, pngBuffer);
+      output.purpose === "maskable"
+        ? await renderMaskablePng(source.buffer, output.size, {
+            backgroundColor: "#ffffff",
+            safeZone: DEFAULT_SAFE_ZONE,
+            ...plan.maskableOptions,
+          })
+        : await renderCachedPng(output.size);
 
     const outputPath = join(plan.outputDir, output.filename);
     await writeFileSafely(outputPath, pngBuffer, plan.overwrite);
@@ -396,6 +438,21 @@ export async function generateArtifacts(
     artifacts.push({ type: "ico", filePath: icoPath });
   }
 
+  if (plan.icns) {
+    const entries = [];
+    for (const osType of Object.keys(ICNS_OS_TYPE_SIZES) as IcnsOsType[]) {
+      const data = await renderCachedPng(ICNS_OS_TYPE_SIZES[osType]);
+      entries.push({ osType, data: new Uint8Array(data) });
+    }
+    const icnsPath = join(plan.outputDir, `${plan.baseName}.icns`);
+    await writeFileSafely(
+      icnsPath,
+      Buffer.from(Icns.encode(entries)),
+      plan.overwrite,
+    );
+    artifacts.push({ type: "icns", filePath: icnsPath });
+  }
+
   if (plan.htmlSnippet) {
     const htmlPath = join(plan.outputDir, `${plan.baseName}.html`);
     await writeFileSafely(
@@ -421,6 +478,369 @@ export async function generateArtifacts(
   return artifacts;
 }
 
+/**
+ * Returns the per-source output directory of a batch: a same-name directory
+ * beside the source, or at the mirrored location below `outputRoot`.
+ */
+export function getBatchOutputDirectory(
+  filePath: string,
+  options: Pick<BatchOptions, "root" | "outputRoot">,
+): string {
+  const directory = dirname(resolve(filePath));
+
+  return getSuggestedOutputDirectory({
+    directory: options.outputRoot
+      ? join(
+          resolve(options.outputRoot),
+          relative(resolve(options.root), directory),
+        )
+      : directory,
+    suggestedBaseName: sanitizeBaseName(basename(filePath, extname(filePath))),
+  });
+}
+
+/**
+ * Generates a complete set for every source image, each into its own output
+ * directory. A failing source does not stop the others.
+ * @param filePaths - Source images, usually from collectImagesFromDirectory.
+ * @param createPlan - Builds the plan of a loaded source for its directory.
+ * @param options - Root directories, concurrency and progress callback.
+ * @returns One result per source, in the order of `filePaths`. Images inside
+ * another source's output directory, such as files from an earlier run, are
+ * left out.
+ * @throws {RangeError} If the concurrency is not a positive integer.
+ */
+export async function generateBatch(
+  filePaths: string[],
+  createPlan: (
+    source: LoadedImageSource,
+    outputDir: string,
+  ) => CliGenerationPlan,
+  options: BatchOptions,
+): Promise<BatchResult[]> {
+  const concurrency =
+    options.concurrency ?? Math.min(4, availableParallelism());
+  if (!Number.isInteger(concurrency) || concurrency <= 0) {
+    throw new RangeError("Concurrency must be a positive integer");
+  }
+
+  // Sources sharing a name, such as logo.png and logo.svg, would write into
+  // the same directory, so later ones get their extension appended
+  const outputDirs = new Set<string>();
+  const jobs = filePaths.map((filePath) => {
+    let outputDir = getBatchOutputDirectory(filePath, options);
+    if (outputDirs.has(outputDir)) {
+      outputDir += `-${extname(filePath).slice(1).toLowerCase()}`;
+    }
+    outputDirs.add(outputDir);
+    return { filePath: resolve(filePath), outputDir };
+  });
+  const sources = jobs.filter(
+    (job) =>
+      ![...outputDirs].some((outputDir) =>
+        job.filePath.startsWith(`${outputDir}${sep}`),
+      ),
+  );
+
+  const results: BatchResult[] = new Array(sources.length);
+  let next = 0;
+  let done = 0;
+  const worker = async (): Promise<void> => {
+    while (next < sources.length) {
+      const index = next++;
+      const { filePath, outputDir } = sources[index];
+
+      let source: SourceMetadata | undefined;
+      let plan: CliGenerationPlan | undefined;
+      try {
+        const loaded = await loadImageFromPath(filePath);
+        source = describeSource(loaded);
+        plan = createPlan(loaded, outputDir);
+        const artifacts = await generateArtifacts(loaded, plan);
+        results[index] = { filePath, outputDir, artifacts, source, plan };
+      } catch (error) {
+        results[index] = {
+          filePath,
+          outputDir,
+          artifacts: [],
+          source,
+          plan,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+      options.onResult?.(results[index], {
+        done: ++done,
+        total: sources.length,
+      });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, sources.length) }, worker),
+  );
+  return results;
+}
+
+export function formatBatchSummary(
+  results: BatchResult[],
+  root: string,
+): string {
+  const failed = results.filter((result) => result.error !== undefined);
+  const label = (filePath: string) => relative(root, filePath) || filePath;
+
+  return [
+    ...results.map((result) =>
+      result.error === undefined
+        ? `ok    ${label(result.filePath)} -> ${result.outputDir} (${result.artifacts.length} files)`
+        : `fail  ${label(result.filePath)}: ${result.error}`,
+    ),
+    "",
+    `${results.length - failed.length} succeeded, ${failed.length} failed`,
+  ].join("\n");
+}
+
+/**
+ * Watches files for changes, including editors that save by replacing the
+ * file, and reports them once no change has happened for the debounce time.
+ * @param filePaths - Files to watch.
+ * @param onChange - Receives the absolute paths that changed.
+ * @param options - Debounce time.
+ * @returns A function that stops watching.
+ */
+export function watchFiles(
+  filePaths: string[],
+  onChange: (changed: string[]) => void,
+  options: WatchOptions = {},
+): () => void {
+  const { debounceMs = 200 } = options;
+  const watched = new Set(filePaths.map((filePath) => resolve(filePath)));
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  // Directory watchers keep working after a file is replaced, unlike
+  // watchers on the file itself
+  const watchers: FSWatcher[] = [
+    ...new Set([...watched].map((filePath) => dirname(filePath))),
+  ].map((directory) =>
+    watch(directory, (_event, filename) => {
+      const filePath = filename ? join(directory, filename.toString()) : "";
+      if (!watched.has(filePath)) return;
+
+      pending.add(filePath);
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const changed = [...pending];
+        pending.clear();
+        onChange(changed);
+      }, debounceMs);
+    }),
+  );
+
+  return () => {
+    clearTimeout(timer);
+    for (const watcher of watchers) watcher.close();
+  };
+}
+
+/**
+ * Hashes the contents of generated files, to tell which ones a later run
+ * changed.
+ * @returns SHA-256 digests keyed by file path, matching the `sha256` field
+ * of report artifacts.
+ */
+export async function hashArtifacts(
+  artifacts: GeneratedArtifact[],
+): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+
+  for (const artifact of artifacts) {
+    hashes.set(artifact.filePath, sha256(await readFile(artifact.filePath)));
+  }
+
+  return hashes;
+}
+
+/**
+ * Lists the artifacts whose contents differ between two runs, including
+ * files the earlier run did not write.
+ */
+export function listChangedArtifacts(
+  artifacts: GeneratedArtifact[],
+  before: Map<string, string>,
+  after: Map<string, string>,
+): GeneratedArtifact[] {
+  return artifacts.filter(
+    (artifact) =>
+      before.get(artifact.filePath) !== after.get(artifact.filePath),
+  );
+}
+
+/**
+ * Strips the image data from a loaded source, leaving what reports show.
+ */
+export function describeSource(source: LoadedImageSource): SourceMetadata {
+  const { buffer: _buffer, ...metadata } = source;
+  return metadata;
+}
+
+/**
+ * Reads a generated file back to describe it in a report.
+ * @returns The artifact with its size, MIME type, image dimensions and
+ * SHA-256 digest.
+ */
+export async function describeArtifact(
+  artifact: GeneratedArtifact,
+): Promise<ArtifactReport> {
+  const bytes = await readFile(artifact.filePath);
+
+  return {
+    ...artifact,
+    byteSize: bytes.length,
+    mimeType: ARTIFACT_MIME_TYPES[artifact.type],
+    dimensions: readArtifactDimensions(artifact.type, bytes),
+    sha256: sha256(bytes),
+  };
+}
+
+/**
+ * Builds the machine-readable report of a single-source run.
+ */
+export async function createGenerationReport(
+  source: LoadedImageSource,
+  plan: CliGenerationPlan,
+  artifacts: GeneratedArtifact[],
+): Promise<GenerationReport> {
+  return {
+    source: describeSource(source),
+    plan,
+    artifacts: await Promise.all(artifacts.map(describeArtifact)),
+  };
+}
+
+/**
+ * Builds the machine-readable report of a batch run.
+ */
+export async function createBatchReport(
+  results: BatchResult[],
+  root: string,
+): Promise<BatchReport> {
+  return {
+    root,
+    results: await Promise.all(
+      results.map(async (result) => ({
+        ...result,
+        artifacts: await Promise.all(result.artifacts.map(describeArtifact)),
+      })),
+    ),
+  };
+}
+
+/**
+ * Writes a report as indented JSON, creating its directory if needed.
+ * Existing reports are replaced.
+ */
+export async function writeReport(
+  filePath: string,
+  report: GenerationReport | BatchReport,
+): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, `${JSON.stringify(report, null, 2)}\n`);
+}
+
+/**
+ * Hex SHA-256 digest of file contents, shared by rerun diffs and reports.
+ */
+function sha256(bytes: Buffer): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+/**
+ * Reads image sizes from the headers of generated files: the IHDR chunk of a
+ * PNG, the directory of an ICO and the element types of an ICNS.
+ */
+function readArtifactDimensions(
+  type: GeneratedArtifact["type"],
+  bytes: Buffer,
+): ArtifactReport["dimensions"] {
+  switch (type) {
+    case "png":
+      return [
+        { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) },
+      ];
+    case "ico":
+      return new IcoDecoder(bytes)
+        .inspect()
+        .entries.map(({ width, height }) => ({ width, height }));
+    case "icns": {
+      const dimensions: ArtifactReport["dimensions"] = [];
+      let offset = 8;
+      while (offset + 8 <= bytes.length) {
+        const osType = bytes.toString("latin1", offset, offset + 4);
+        const length = bytes.readUInt32BE(offset + 4);
+        if (length < 8) break;
+
+        if (isIcnsOsType(osType)) {
+          const size = ICNS_OS_TYPE_SIZES[osType];
+          dimensions.push({ width: size, height: size });
+        }
+        offset += length;
+      }
+      return dimensions;
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Reads dimensions and format of a source image. ICO and CUR files, which
+ * sharp cannot decode, are converted to a PNG of the selected entry.
+ */
+async function decodeSourceImage(
+  buffer: Buffer,
+  options: ImageLoadOptions,
+): Promise<Pick<
+  LoadedImageSource,
+  "buffer" | "width" | "height" | "format" | "frame"
+> | null> {
+  if (isIconBuffer(buffer)) {
+    const decoder = new IcoDecoder(buffer);
+    const info = decoder.inspect();
+    const frame = options.frame ?? selectIconFrame(info);
+    const decoded = await decoder.decodeEntry(frame);
+    const png = await sharp(Buffer.from(decoded.data.buffer), {
+      raw: { width: decoded.width, height: decoded.height, channels: 4 },
+    })
+      .png()
+      .toBuffer();
+
+    return {
+      buffer: png,
+      width: decoded.width,
+      height: decoded.height,
+      format: info.type === "icon" ? "ico" : "cur",
+      frame,
+    };
+  }
+
+  if (options.frame !== undefined) {
+    throw new Error("Frame selection is only supported for ICO and CUR files");
+  }
+
+  const metadata = await sharp(buffer, { animated: true }).metadata();
+
+  if (!metadata.width || !metadata.height || !metadata.format) {
+    return null;
+  }
+
+  return {
+    buffer,
+    width: metadata.width,
+    height: metadata.height,
+    format: metadata.format,
+  };
+}
+
 async function renderPng(
   input: Buffer,
   size: number,
@@ -437,6 +857,41 @@ async function renderPng(
     .toBuffer();
 }
 
+/**
+ * Fits the source into the centered safe zone of a maskable icon and fills
+ * the rest, including transparent pixels, with the background.
+ */
+async function renderMaskablePng(
+  input: Buffer,
+  size: number,
+  options: Required<MaskableOptions>,
+): Promise<Buffer> {
+  // Same square as MaskableCompositor: the largest one inside the safe zone
+  // circle
+  const inner = Math.max(1, Math.round((size * options.safeZone) / Math.SQRT2));
+  const before = Math.floor((size - inner) / 2);
+  const after = size - inner - before;
+
+  // Only the first frame: extending and flattening animated strips would
+  // mix frames
+  return sharp(input)
+    .rotate()
+    .resize(inner, inner, {
+      fit: "contain",
+      background: options.backgroundColor,
+    })
+    .extend({
+      top: before,
+      bottom: after,
+      left: before,
+      right: after,
+      background: options.backgroundColor,
+    })
+    .flatten({ background: options.backgroundColor })
+    .png()
+    .toBuffer();
+}
+
 async function writeFileSafely(
   filePath: string,
   contents: string | Buffer,
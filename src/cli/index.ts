@@ -2,6 +2,7 @@ import {
   confirm,
   intro,
   isCancel,
+  log,
   note,
   outro,
   select,
@@ -11,41 +12,65 @@ import {
 import type { Option } from "@clack/prompts";
 import { readFileSync } from "node:fs";
 import { stat } from "node:fs/promises";
-import { resolve } from "node:path";
+import { dirname, relative, resolve } from "node:path";
 
+import { parseArgs, type CliArgs } from "./args";
+import { applyConfig, findConfigFile, loadConfig } from "./config";
 import {
+  DEFAULT_MASKABLE_SIZES,
+  DEFAULT_SAFE_ZONE,
   collectImagesFromDirectory,
+  createBatchReport,
+  createGenerationReport,
+  createManifestOptions,
+  formatBatchSummary,
+  formatIconInspection,
   generateArtifacts,
+  generateBatch,
   getPresetBlueprint,
   getSuggestedOutputDirectory,
+  hashArtifacts,
+  inspectIconFile,
   isExternalImageUrl,
+  listChangedArtifacts,
   loadImageFromPath,
   loadImageFromUrl,
   parseSizeList,
   sanitizeBaseName,
   summarizePlan,
+  watchFiles,
+  writeReport,
+  type BatchReport,
   type CliGenerationPlan,
   type CliPreset,
   type FitMode,
+  type GenerationReport,
+  type ImageLoadOptions,
   type LoadedImageSource,
   type ManifestOptions,
 } from "./core";
 
-interface CliArgs {
-  help: boolean;
-  output?: string;
-  preset?: CliPreset;
-  recursive: boolean;
-  source?: string;
-  version: boolean;
-  yes: boolean;
-}
+const DEFAULT_CUSTOM_PNG_SIZES = "16,32,64,128,180,192,256,512";
+const DEFAULT_CUSTOM_ICO_SIZES = "16,32,48,64,256";
+const WATCH_DEBOUNCE_MS = 200;
 
 let hasExitedGracefully = false;
+/** Set by --json: stdout carries only the report, so prompts are refused */
+let jsonOutput = false;
+/** Spinner of the step in progress, stopped if the step fails */
+let activeSpinner: ReturnType<typeof spinner> | undefined;
 const packageVersion = getPackageVersion();
 
 async function main(): Promise<void> {
-  const args = parseArgs(process.argv.slice(2));
+  let args: CliArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : "Invalid arguments");
+    console.error("Run favium --help to see the available options.");
+    process.exitCode = 1;
+    return;
+  }
 
   if (args.help) {
     printHelp();
@@ -57,61 +82,56 @@ async function main(): Promise<void> {
     return;
   }
 
-  intro("Favium CLI");
+  if (args.command === "inspect") {
+    await runInspect(args.inspectPath);
+    return;
+  }
+
+  jsonOutput = args.json;
+  showIntro("Favium CLI");
 
   try {
+    const flagArgs = args;
+    const configPath =
+      args.config === false
+        ? undefined
+        : args.config !== undefined
+          ? resolve(args.config)
+          : await findConfigFile(process.cwd());
+    if (configPath) {
+      args = applyConfig(
+        args,
+        await loadConfig(configPath),
+        dirname(configPath),
+      );
+      showNote(
+        relative(process.cwd(), configPath) || configPath,
+        "Config file",
+      );
+    }
+
+    if (args.batch) {
+      await runBatch(args);
+      return;
+    }
+
     const source = await resolveSource(args);
-    note(
+    showNote(
       [
         `Source: ${source.label}`,
         `Image: ${source.width}x${source.height}`,
         `Format: ${source.format}`,
+        ...(source.frame !== undefined ? [`Frame: #${source.frame}`] : []),
       ].join("\n"),
       "Selected image",
     );
+    if (args.watch && source.kind === "external-url") {
+      throw new Error("--watch requires a local source file");
+    }
 
-    const outputDir = await resolveOutputDirectory(source, args);
-    const baseName = await resolveBaseName(source, args.yes);
-    const preset = await resolvePreset(args);
-    const fit = await resolveFitMode(args.yes);
-    const background =
-      fit === "contain"
-        ? await promptText("Background color for padding", "#ffffff")
-        : "#000000";
-    const overwrite = args.yes
-      ? true
-      : await promptConfirm("Overwrite existing files if needed?", false);
-    const blueprint = await resolveBlueprint(baseName, preset);
-    const htmlSnippet = args.yes
-      ? blueprint.htmlSnippet
-      : await promptConfirm(
-          "Generate an HTML snippet file?",
-          blueprint.htmlSnippet,
-        );
-    const manifest = args.yes
-      ? blueprint.manifest
-      : await promptConfirm(
-          "Generate a web manifest file when relevant sizes exist?",
-          blueprint.manifest,
-        );
-
-    const plan: CliGenerationPlan = {
-      baseName,
-      outputDir,
-      fit,
-      background,
-      overwrite,
-      icoSizes: blueprint.icoSizes,
-      pngOutputs: blueprint.pngOutputs,
-      htmlSnippet,
-      manifest,
-      manifestFilename: blueprint.manifestFilename,
-      manifestOptions: manifest
-        ? await resolveManifestOptions(baseName, args.yes)
-        : undefined,
-    };
+    const { plan, answers } = await preparePlan(args, source);
 
-    note(summarizePlan(source, plan), "Plan");
+    showNote(summarizePlan(source, plan), "Plan");
 
     if (!args.yes) {
       const approved = await promptConfirm("Generate these assets now?", true);
@@ -120,45 +140,173 @@ async function main(): Promise<void> {
       }
     }
 
-    const progress = spinner();
-    progress.start("Generating favicon assets");
+    const progress = startSpinner("Generating favicon assets");
     const artifacts = await generateArtifacts(source, plan);
     progress.stop("Assets generated");
 
-    note(
+    showNote(
       artifacts
         .map((artifact) => `- ${artifact.type}: ${artifact.filePath}`)
         .join("\n"),
       "Written files",
     );
-    outro(`Done. ${artifacts.length} file(s) created.`);
+
+    if (args.watch) {
+      await watchForChanges(flagArgs, configPath, {
+        source,
+        plan,
+        answers,
+        hashes: await hashArtifacts(artifacts),
+      });
+      return;
+    }
+
+    if (args.json || args.report) {
+      await emitReport(
+        args,
+        await createGenerationReport(source, plan, artifacts),
+      );
+    }
+
+    showOutro(`Done. ${artifacts.length} file(s) created.`);
   } catch (error) {
-    outro(error instanceof Error ? error.message : "Unknown error");
+    const message = error instanceof Error ? error.message : "Unknown error";
+    // A running spinner keeps the process alive
+    activeSpinner?.error("Failed");
+    activeSpinner = undefined;
+    if (jsonOutput) {
+      console.error(message);
+    } else {
+      outro(message);
+    }
     process.exitCode = 1;
   }
 }
 
-function parseArgs(argv: string[]): CliArgs {
-  const args: CliArgs = {
-    help: false,
-    recursive: false,
-    version: false,
-    yes: false,
-  };
+async function runBatch(args: CliArgs): Promise<void> {
+  if (!args.source || isExternalImageUrl(args.source)) {
+    throw new Error("--batch requires --source pointing to a local directory");
+  }
+  if (args.frame !== undefined) {
+    throw new Error("--frame cannot be used with --batch");
+  }
+
+  const root = resolve(args.source);
+  if (!(await stat(root)).isDirectory()) {
+    throw new Error(`--batch requires a directory source, got a file: ${root}`);
+  }
+
+  const filePaths = await collectImagesFromDirectory(root, args.recursive);
+  if (filePaths.length === 0) {
+    throw new Error(`No valid image files found in directory: ${root}`);
+  }
+
+  const outputRoot = args.output ? resolve(args.output) : undefined;
+  showNote(
+    [
+      `Directory: ${root}${args.recursive ? " (recursive)" : ""}`,
+      `Images: ${filePaths.length}`,
+      `Output: ${outputRoot ?? "same-name directory beside each image"}`,
+    ].join("\n"),
+    "Batch",
+  );
+
+  const settings = await resolvePlanSettings(args, "favicon");
+  const maskableBackground = await resolveMaskableBackground(
+    settings,
+    args,
+    args.manifestOptions.backgroundColor,
+  );
 
-  for (let index = 0; index < argv.length; index++) {
-    const arg = argv[index];
+  if (!args.yes) {
+    const approved = await promptConfirm(
+      `Generate ${filePaths.length} favicon sets now?`,
+      true,
+    );
+    if (!approved) {
+      exitGracefully();
+    }
+  }
 
-    if (arg === "--help" || arg === "-h") args.help = true;
-    if (arg === "--version" || arg === "-v") args.version = true;
-    if (arg === "--recursive") args.recursive = true;
-    if (arg === "--yes" || arg === "-y") args.yes = true;
-    if (arg === "--source") args.source = argv[++index];
-    if (arg === "--output") args.output = argv[++index];
-    if (arg === "--preset") args.preset = argv[++index] as CliPreset;
+  const progress = startSpinner("Generating favicon sets");
+  const results = await generateBatch(
+    filePaths,
+    (source, outputDir) => {
+      const baseName =
+        args.baseName !== undefined
+          ? sanitizeBaseName(args.baseName)
+          : source.suggestedBaseName;
+
+      // Manifest fields are not prompted for in batch mode: each set gets
+      // its own name
+      return createPlan(settings, args, {
+        baseName,
+        outputDir,
+        manifestOptions: settings.manifest
+          ? createManifestOptions(baseName, args.manifestOptions)
+          : undefined,
+        maskableBackground,
+      });
+    },
+    {
+      root,
+      outputRoot,
+      concurrency: args.concurrency,
+      onResult: (_result, { done, total }) =>
+        progress.message(`Generating favicon sets (${done}/${total})`),
+    },
+  );
+  progress.stop("Batch finished");
+
+  const failed = results.filter((result) => result.error !== undefined).length;
+  showNote(formatBatchSummary(results, root), "Batch summary");
+
+  if (args.json || args.report) {
+    await emitReport(args, await createBatchReport(results, root));
   }
 
-  return args;
+  if (failed > 0) {
+    process.exitCode = 1;
+    showOutro(`${failed} of ${results.length} source(s) failed.`);
+    return;
+  }
+
+  showOutro(`Done. ${results.length} favicon set(s) created.`);
+}
+
+/**
+ * Prints the report to stdout under --json and writes it to the --report
+ * file.
+ */
+async function emitReport(
+  args: CliArgs,
+  report: GenerationReport | BatchReport,
+): Promise<void> {
+  if (args.report) {
+    const reportPath = resolve(args.report);
+    await writeReport(reportPath, report);
+    showNote(relative(process.cwd(), reportPath) || reportPath, "Report");
+  }
+
+  if (args.json) {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  }
+}
+
+async function runInspect(filePath: string | undefined): Promise<void> {
+  if (!filePath) {
+    console.error("Usage: favium inspect <file.ico>");
+    process.exitCode = 1;
+    return;
+  }
+
+  try {
+    const info = await inspectIconFile(filePath);
+    console.log(formatIconInspection(filePath, info));
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : "Unknown error");
+    process.exitCode = 1;
+  }
 }
 
 function getPackageVersion(): string {
@@ -175,8 +323,10 @@ function getPackageVersion(): string {
 }
 
 async function resolveSource(args: CliArgs): Promise<LoadedImageSource> {
+  const loadOptions: ImageLoadOptions = { frame: args.frame };
+
   if (args.source) {
-    return resolveExplicitSource(args.source, args.recursive);
+    return resolveExplicitSource(args.source, args.recursive, loadOptions);
   }
 
   while (true) {
@@ -201,7 +351,7 @@ async function resolveSource(args: CliArgs): Promise<LoadedImageSource> {
         );
 
         if (files.length === 0) {
-          note(
+          showNote(
             "No valid image files were found in the current directory. Try another source.",
             "No images found",
           );
@@ -216,18 +366,18 @@ async function resolveSource(args: CliArgs): Promise<LoadedImageSource> {
           })),
         );
 
-        const source = await loadImageFromPath(selected);
+        const source = await loadImageFromPath(selected, loadOptions);
         source.kind = "current-dir";
         return source;
       }
 
       if (sourceMode === "custom-path") {
-        return promptLocalImageSource();
+        return promptLocalImageSource(loadOptions);
       }
 
-      return promptExternalImageSource();
+      return promptExternalImageSource(loadOptions);
     } catch (error) {
-      note(
+      showNote(
         error instanceof Error
           ? error.message
           : "Failed to resolve the selected source.",
@@ -240,9 +390,10 @@ async function resolveSource(args: CliArgs): Promise<LoadedImageSource> {
 async function resolveExplicitSource(
   sourceValue: string,
   recursive: boolean,
+  loadOptions: ImageLoadOptions,
 ): Promise<LoadedImageSource> {
   if (isExternalImageUrl(sourceValue)) {
-    return loadImageFromUrl(sourceValue);
+    return loadImageFromUrl(sourceValue, loadOptions);
   }
 
   const absolutePath = resolve(sourceValue);
@@ -264,10 +415,10 @@ async function resolveExplicitSource(
       })),
     );
 
-    return loadImageFromPath(selected);
+    return loadImageFromPath(selected, loadOptions);
   }
 
-  return loadImageFromPath(absolutePath);
+  return loadImageFromPath(absolutePath, loadOptions);
 }
 
 async function resolveOutputDirectory(
@@ -315,9 +466,13 @@ async function resolveOutputDirectory(
 
 async function resolveBaseName(
   source: LoadedImageSource,
-  yes: boolean,
+  args: CliArgs,
 ): Promise<string> {
-  if (yes) {
+  if (args.baseName !== undefined) {
+    return sanitizeBaseName(args.baseName);
+  }
+
+  if (args.yes) {
     return sanitizeBaseName(source.suggestedBaseName);
   }
 
@@ -334,6 +489,10 @@ async function resolvePreset(args: CliArgs): Promise<CliPreset> {
     return args.preset;
   }
 
+  if (args.yes) {
+    return "default";
+  }
+
   return promptSelect("Choose an output preset", [
     { label: "Default favicon set", value: "default" },
     { label: "Rich web app set", value: "web-app" },
@@ -351,67 +510,420 @@ async function resolveFitMode(yes: boolean): Promise<FitMode> {
   ]);
 }
 
-async function resolveBlueprint(baseName: string, preset: CliPreset) {
-  if (preset !== "custom") {
-    return getPresetBlueprint(preset, baseName);
-  }
+/**
+ * Resolves the plan of a single source, prompting for anything flags and the
+ * config leave open.
+ * @returns The plan, and the arguments with every answer filled in so the
+ * plan can be rebuilt without prompting.
+ */
+async function preparePlan(
+  args: CliArgs,
+  source: LoadedImageSource,
+): Promise<{ plan: CliGenerationPlan; answers: CliArgs }> {
+  const outputDir = await resolveOutputDirectory(source, args);
+  const baseName = await resolveBaseName(source, args);
+  const settings = await resolvePlanSettings(args, baseName);
+  const manifestOptions = settings.manifest
+    ? await resolveManifestOptions(baseName, args)
+    : undefined;
+  const maskableBackground = await resolveMaskableBackground(
+    settings,
+    args,
+    manifestOptions?.backgroundColor,
+  );
 
-  while (true) {
-    const defaultPngSizes = await promptText(
-      "PNG sizes (comma-separated)",
-      "16,32,64,128,180,192,256,512",
+  return {
+    plan: createPlan(settings, args, {
+      baseName,
+      outputDir,
+      manifestOptions,
+      maskableBackground,
+    }),
+    answers: {
+      ...args,
+      yes: true,
+      source: source.origin,
+      output: outputDir,
+      baseName,
+      preset: settings.preset,
+      pngSizes: settings.customSizes?.pngSizes,
+      icoSizes: settings.customSizes?.icoSizes,
+      fit: settings.fit,
+      background: settings.fit === "contain" ? settings.background : undefined,
+      overwrite: settings.overwrite,
+      html: settings.htmlSnippet,
+      manifest: settings.manifest,
+      icns: settings.icns,
+      maskable: settings.maskableSizes.length > 0,
+      maskableBackground,
+      manifestOptions: { ...manifestOptions },
+    },
+  };
+}
+
+interface WatchState {
+  source: LoadedImageSource;
+  plan: CliGenerationPlan;
+  answers: CliArgs;
+  /** Digests of the files written by the latest run */
+  hashes: Map<string, string>;
+}
+
+/**
+ * Regenerates the assets whenever the source or config file changes, until
+ * the process is interrupted. Source changes reuse the plan; config changes
+ * rebuild it, keeping the earlier answers for anything the config leaves
+ * open. Files are overwritten on reruns, since they come from the first run.
+ */
+async function watchForChanges(
+  flagArgs: CliArgs,
+  configPath: string | undefined,
+  state: WatchState,
+): Promise<void> {
+  let stopWatching = (): void => {};
+  let running = false;
+  let queued = new Set<string>();
+
+  const label = (filePath: string) =>
+    relative(process.cwd(), filePath) || filePath;
+
+  const startWatching = () => {
+    stopWatching();
+    const filePaths = [
+      state.source.origin,
+      ...(configPath ? [configPath] : []),
+    ];
+    stopWatching = watchFiles(filePaths, (changed) => void onChange(changed), {
+      debounceMs: WATCH_DEBOUNCE_MS,
+    });
+    log.info(
+      `Watching ${filePaths.map(label).join(" and ")} for changes. Press Ctrl+C to stop.`,
     );
-    const defaultIcoSizes = await promptText(
-      "ICO sizes (comma-separated, max 256)",
-      "16,32,48,64,256",
+  };
+
+  const regenerate = async (changed: string[]) => {
+    log.step(`${changed.map(label).join(", ")} changed, regenerating`);
+
+    if (configPath && changed.includes(configPath)) {
+      const config = await loadConfig(configPath);
+      const args = applyConfig(flagArgs, config, dirname(configPath));
+      const nextArgs: CliArgs = {
+        ...state.answers,
+        ...Object.fromEntries(
+          Object.entries(args).filter(([, value]) => value !== undefined),
+        ),
+        yes: true,
+        manifestOptions: {
+          ...state.answers.manifestOptions,
+          ...args.manifestOptions,
+        },
+      };
+      const source = await resolveSource(nextArgs);
+      const sourceMoved = source.origin !== state.source.origin;
+      Object.assign(state, { source }, await preparePlan(nextArgs, source));
+      if (sourceMoved) startWatching();
+    } else {
+      state.source = await loadImageFromPath(state.source.origin, {
+        frame: state.answers.frame,
+      });
+    }
+
+    const artifacts = await generateArtifacts(state.source, {
+      ...state.plan,
+      overwrite: true,
+    });
+    const hashes = await hashArtifacts(artifacts);
+    const updated = listChangedArtifacts(artifacts, state.hashes, hashes);
+    state.hashes = hashes;
+
+    log.success(
+      updated.length === 0
+        ? "No generated files changed"
+        : [
+            `Updated ${updated.length} of ${artifacts.length} file(s):`,
+            ...updated.map((artifact) => `- ${label(artifact.filePath)}`),
+          ].join("\n"),
     );
+  };
+
+  // Runs one regeneration at a time; changes arriving meanwhile are
+  // collected into a single follow-up run
+  const onChange = async (changed: string[]) => {
+    if (running) {
+      changed.forEach((filePath) => queued.add(filePath));
+      return;
+    }
+
+    running = true;
+    try {
+      await regenerate(changed);
+    } catch (error) {
+      log.error(
+        `Regeneration failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    } finally {
+      running = false;
+    }
+
+    if (queued.size > 0) {
+      const next = [...queued];
+      queued = new Set();
+      await onChange(next);
+    }
+  };
+
+  startWatching();
+}
+
+/** Answers shared by every source of a run */
+interface PlanSettings {
+  preset: CliPreset;
+  fit: FitMode;
+  background: string;
+  overwrite: boolean;
+  maskableSizes: number[];
+  /** PNG and ICO sizes of the "custom" preset */
+  customSizes?: { pngSizes: number[]; icoSizes: number[] };
+  htmlSnippet: boolean;
+  manifest: boolean;
+  icns: boolean;
+}
+
+async function resolvePlanSettings(
+  args: CliArgs,
+  baseName: string,
+): Promise<PlanSettings> {
+  const preset = await resolvePreset(args);
+  const fit = args.fit ?? (await resolveFitMode(args.yes));
+  const background =
+    fit === "contain"
+      ? (args.background ??
+        (args.yes
+          ? "#ffffff"
+          : await promptText("Background color for padding", "#ffffff")))
+      : "#000000";
+  const overwrite =
+    args.overwrite ??
+    (args.yes
+      ? true
+      : await promptConfirm("Overwrite existing files if needed?", false));
+  const maskable =
+    args.maskable ??
+    (!args.yes &&
+      (await promptConfirm(
+        "Generate maskable 192/512 icons for Android home screens?",
+        false,
+      )));
+  const partial = {
+    preset,
+    maskableSizes: maskable
+      ? (args.maskableSizes ?? DEFAULT_MASKABLE_SIZES)
+      : [],
+    customSizes: await resolveCustomSizes(preset, args),
+  };
+  const blueprint = buildBlueprint(baseName, partial, args);
+  const htmlSnippet =
+    args.html ??
+    (args.yes
+      ? blueprint.htmlSnippet
+      : await promptConfirm(
+          "Generate an HTML snippet file?",
+          blueprint.htmlSnippet,
+        ));
+  const manifest =
+    args.manifest ??
+    (args.yes
+      ? blueprint.manifest
+      : await promptConfirm(
+          "Generate a web manifest file when relevant sizes exist?",
+          blueprint.manifest,
+        ));
+  const icns =
+    args.icns ??
+    (!args.yes &&
+      (await promptConfirm(
+        "Generate a macOS .icns file for desktop bundles?",
+        false,
+      )));
+
+  return {
+    ...partial,
+    fit,
+    background,
+    overwrite,
+    htmlSnippet,
+    manifest,
+    icns,
+  };
+}
+
+async function resolveMaskableBackground(
+  settings: PlanSettings,
+  args: CliArgs,
+  manifestBackground = "#ffffff",
+): Promise<string | undefined> {
+  if (settings.maskableSizes.length === 0) return undefined;
+  if (args.maskableBackground !== undefined) return args.maskableBackground;
+  if (args.yes) return manifestBackground;
+
+  return promptText("Background color for maskable icons", manifestBackground);
+}
+
+function createPlan(
+  settings: PlanSettings,
+  args: CliArgs,
+  target: {
+    baseName: string;
+    outputDir: string;
+    manifestOptions?: ManifestOptions;
+    maskableBackground?: string;
+  },
+): CliGenerationPlan {
+  const blueprint = buildBlueprint(target.baseName, settings, args);
 
-    const pngSizes = parseSizeList(defaultPngSizes);
-    const icoSizes = parseSizeList(defaultIcoSizes).filter(
-      (size) => size <= 256,
+  return {
+    baseName: target.baseName,
+    outputDir: target.outputDir,
+    fit: settings.fit,
+    background: settings.background,
+    overwrite: settings.overwrite,
+    icoSizes: blueprint.icoSizes,
+    pngOutputs: blueprint.pngOutputs,
+    htmlSnippet: settings.htmlSnippet,
+    manifest: settings.manifest,
+    manifestFilename: args.manifestFilename ?? blueprint.manifestFilename,
+    icns: settings.icns,
+    manifestOptions: target.manifestOptions,
+    maskableOptions: target.maskableBackground
+      ? {
+          backgroundColor: target.maskableBackground,
+          safeZone: args.maskableSafeZone ?? DEFAULT_SAFE_ZONE,
+        }
+      : undefined,
+  };
+}
+
+function buildBlueprint(
+  baseName: string,
+  settings: Pick<PlanSettings, "preset" | "maskableSizes" | "customSizes">,
+  args: CliArgs,
+) {
+  if (!settings.customSizes) {
+    return withConfiguredOutputs(
+      getPresetBlueprint(
+        settings.preset,
+        baseName,
+        undefined,
+        undefined,
+        settings.maskableSizes,
+      ),
+      args,
     );
+  }
+
+  return getPresetBlueprint(
+    "custom",
+    baseName,
+    settings.customSizes.pngSizes,
+    settings.customSizes.icoSizes,
+    settings.maskableSizes,
+  );
+}
+
+async function resolveCustomSizes(
+  preset: CliPreset,
+  args: CliArgs,
+): Promise<PlanSettings["customSizes"]> {
+  if (preset !== "custom" || args.pngOutputs) {
+    return undefined;
+  }
+
+  while (true) {
+    const pngSizes =
+      args.pngSizes ??
+      parseSizeList(
+        args.yes
+          ? DEFAULT_CUSTOM_PNG_SIZES
+          : await promptText(
+              "PNG sizes (comma-separated)",
+              DEFAULT_CUSTOM_PNG_SIZES,
+            ),
+      );
+    const icoSizes =
+      args.icoSizes ??
+      parseSizeList(
+        args.yes
+          ? DEFAULT_CUSTOM_ICO_SIZES
+          : await promptText(
+              "ICO sizes (comma-separated, max 256)",
+              DEFAULT_CUSTOM_ICO_SIZES,
+            ),
+      ).filter((size) => size <= 256);
 
     if (pngSizes.length === 0) {
-      note(
+      showNote(
         "At least one valid PNG size must be provided.",
         "Invalid PNG sizes",
       );
       continue;
     }
 
-    return getPresetBlueprint("custom", baseName, pngSizes, icoSizes);
+    return { pngSizes, icoSizes };
   }
 }
 
+/**
+ * Replaces the preset's PNG files and ICO sizes with the ones from a config
+ * file, keeping the maskable variants.
+ */
+function withConfiguredOutputs(
+  blueprint: ReturnType<typeof getPresetBlueprint>,
+  args: CliArgs,
+): ReturnType<typeof getPresetBlueprint> {
+  if (!args.pngOutputs && !args.icoSizes) return blueprint;
+
+  const pngOutputs = args.pngOutputs
+    ? [
+        ...args.pngOutputs,
+        ...blueprint.pngOutputs.filter(
+          (output) => output.purpose === "maskable",
+        ),
+      ]
+    : blueprint.pngOutputs;
+
+  return {
+    ...blueprint,
+    icoSizes: args.icoSizes ?? blueprint.icoSizes,
+    pngOutputs,
+    manifest: pngOutputs.some((output) => output.manifest),
+  };
+}
+
 async function resolveManifestOptions(
   baseName: string,
-  yes: boolean,
+  args: CliArgs,
 ): Promise<ManifestOptions> {
-  if (yes) {
-    return {
-      name: baseName,
-      shortName: baseName,
-      backgroundColor: "#ffffff",
-      themeColor: "#111827",
-      display: "standalone",
-      startUrl: "/",
-    };
+  const flags = args.manifestOptions;
+  if (args.yes) {
+    return createManifestOptions(baseName, flags);
   }
 
-  const name = await promptText("Manifest app name", baseName);
-  const shortName = await promptText("Manifest short name", name);
-  const themeColor = await promptText("Theme color", "#111827");
-  const backgroundColor = await promptText("Background color", "#ffffff");
-  const startUrl = await promptText("Start URL", "/");
-  const display = await promptSelect<ManifestOptions["display"]>(
-    "Display mode",
-    [
+  const name = flags.name ?? (await promptText("Manifest app name", baseName));
+  const shortName =
+    flags.shortName ?? (await promptText("Manifest short name", name));
+  const themeColor =
+    flags.themeColor ?? (await promptText("Theme color", "#111827"));
+  const backgroundColor =
+    flags.backgroundColor ?? (await promptText("Background color", "#ffffff"));
+  const startUrl = flags.startUrl ?? (await promptText("Start URL", "/"));
+  const display =
+    flags.display ??
+    (await promptSelect<ManifestOptions["display"]>("Display mode", [
       { label: "Standalone", value: "standalone" },
       { label: "Minimal UI", value: "minimal-ui" },
       { label: "Fullscreen", value: "fullscreen" },
       { label: "Browser", value: "browser" },
-    ],
-  );
+    ]));
 
   return {
     name,
@@ -423,19 +935,21 @@ async function resolveManifestOptions(
   };
 }
 
-async function promptExternalImageSource(): Promise<LoadedImageSource> {
+async function promptExternalImageSource(
+  loadOptions: ImageLoadOptions,
+): Promise<LoadedImageSource> {
   while (true) {
     const url = await promptText("Enter an image URL", "https://");
 
     if (!isExternalImageUrl(url)) {
-      note("Please enter a valid http or https image URL.", "Invalid URL");
+      showNote("Please enter a valid http or https image URL.", "Invalid URL");
       continue;
     }
 
     try {
-      return await loadImageFromUrl(url);
+      return await loadImageFromUrl(url, loadOptions);
     } catch (error) {
-      note(
+      showNote(
         error instanceof Error
           ? error.message
           : "Failed to load the image URL.",
@@ -445,7 +959,9 @@ async function promptExternalImageSource(): Promise<LoadedImageSource> {
   }
 }
 
-async function promptLocalImageSource(): Promise<LoadedImageSource> {
+async function promptLocalImageSource(
+  loadOptions: ImageLoadOptions,
+): Promise<LoadedImageSource> {
   while (true) {
     const inputPath = await promptText(
       "Enter a file or directory path",
@@ -453,9 +969,9 @@ async function promptLocalImageSource(): Promise<LoadedImageSource> {
     );
 
     try {
-      return await resolveExplicitSource(inputPath, true);
+      return await resolveExplicitSource(inputPath, true, loadOptions);
     } catch (error) {
-      note(
+      showNote(
         error instanceof Error
           ? error.message
           : "Failed to resolve the local image path.",
@@ -469,6 +985,7 @@ async function promptText(
   message: string,
   initialValue: string,
 ): Promise<string> {
+  assertCanPrompt(message);
   return unwrapPrompt(
     await text({
       message,
@@ -481,6 +998,7 @@ async function promptConfirm(
   message: string,
   initialValue: boolean,
 ): Promise<boolean> {
+  assertCanPrompt(message);
   return unwrapPrompt(
     await confirm({
       message,
@@ -493,6 +1011,7 @@ async function promptSelect<T extends string>(
   message: string,
   options: Array<Option<T>>,
 ): Promise<T> {
+  assertCanPrompt(message);
   return unwrapPrompt(
     await select({
       message,
@@ -501,6 +1020,43 @@ async function promptSelect<T extends string>(
   );
 }
 
+function assertCanPrompt(message: string): void {
+  if (jsonOutput) {
+    throw new Error(
+      `--json cannot prompt for "${message}". Pass --source pointing to an image file.`,
+    );
+  }
+}
+
+function showIntro(title: string): void {
+  if (!jsonOutput) intro(title);
+}
+
+function showNote(message: string, title: string): void {
+  if (!jsonOutput) note(message, title);
+}
+
+function showOutro(message: string): void {
+  if (!jsonOutput) outro(message);
+}
+
+function startSpinner(
+  message: string,
+): Pick<ReturnType<typeof spinner>, "message" | "stop"> {
+  if (jsonOutput) return { message() {}, stop() {} };
+
+  const progress = spinner();
+  progress.start(message);
+  activeSpinner = progress;
+  return {
+    message: progress.message,
+    stop(stopMessage) {
+      activeSpinner = undefined;
+      progress.stop(stopMessage);
+    },
+  };
+}
+
 function unwrapPrompt<T>(value: T | symbol): T {
   if (isCancel(value)) {
     exitGracefully();
@@ -526,15 +1082,57 @@ Interactive favicon generator for terminal workflows.
 Usage:
   favium
   favium --source ./logo.png --output ./public --preset web-app --yes
+  favium --source ./logo.png --png-sizes 32,192,512 --no-html --yes
+  favium --source ./brands --batch --recursive --output ./public/icons --yes
+  favium --source ./logo.png --output ./public --json > favicons.json
+  favium inspect ./public/favicon.ico
+
+Commands:
+  inspect <file>   List the entries of an ICO or CUR file
 
 Options:
-  -h, --help       Show this help message
-  -v, --version    Show the current version
-  --source         Local file, local directory, or external image URL
-  --output         Output directory
-  --preset         default | web-app | apple-android | custom
-  --recursive      Recursively scan directories for valid images
-  -y, --yes        Accept defaults for optional prompts
+  -h, --help                   Show this help message
+  -v, --version                Show the current version
+  -y, --yes                    Accept defaults for prompts not answered by flags
+  --config <path>              Config file (default: favium.config.{json,js,mjs,cjs,ts} in the working directory)
+  --no-config                  Ignore config files
+  --json                       Print a JSON report instead of the interactive output (implies --yes)
+  --report <file>              Write the JSON report to a file
+
+Source and output:
+  --source <path|url>          Local file, local directory, or external image URL
+  --recursive                  Recursively scan directories for valid images
+  --batch                      Generate a set for every image in the --source directory
+  --concurrency <n>            Images generated at once in batch mode (default: up to 4)
+  --frame <index>              Entry index to use from an ICO or CUR source (default: largest)
+  --output <dir>               Output directory
+  --watch                      Regenerate when the source file or config file changes
+  --base-name <name>           Base filename for generated assets
+  --[no-]overwrite             Overwrite existing files (default with --yes)
+
+Images:
+  --preset <name>              default | web-app | apple-android | custom
+  --png-sizes <list>           Comma-separated PNG sizes, up to 1024 (implies --preset custom)
+  --ico-sizes <list>           Comma-separated ICO sizes, up to 256 (implies --preset custom)
+  --fit <mode>                 cover | contain (default: cover)
+  --background <color>         Padding color for --fit contain (default: #ffffff)
+  --[no-]icns                  Also generate a macOS .icns file
+  --[no-]maskable              Also generate maskable 192/512 icons for the web manifest
+  --maskable-background <color>
+                               Background color of maskable icons (default: manifest background)
+
+HTML and manifest:
+  --[no-]html                  Write the HTML snippet
+  --[no-]manifest              Write the web manifest
+  --manifest-name <name>       App name (default: base name)
+  --manifest-short-name <name> Short app name (default: app name)
+  --theme-color <color>        Theme color (default: #111827)
+  --manifest-background <color>
+                               Background color (default: #ffffff)
+  --display <mode>             standalone | minimal-ui | fullscreen | browser
+  --start-url <url>            Start URL (default: /)
+
+Flags that take a value also accept --flag=value.
 `);
 }
 
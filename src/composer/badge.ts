@@ -0,0 +1,157 @@
+import {
+  BadgeOptions,
+  BadgePosition,
+  Canvas2DContext,
+  FaviconCanvas,
+  FaviconSource,
+} from "../types";
+import { createCanvas, getContext2d, isCanvasSource } from "../utils/canvas";
+
+const POSITIONS: BadgePosition[] = [
+  "top-right",
+  "top-left",
+  "bottom-right",
+  "bottom-left",
+];
+
+/**
+ * Default badge height relative to the icon: small icons need a relatively
+ * larger badge for the count to stay legible.
+ */
+const defaultScale = (size: number): number =>
+  size <= 16 ? 0.75 : size <= 32 ? 0.6 : 0.45;
+
+/**
+ * Composites a notification count or dot onto a copy of a canvas.
+ */
+class Badge {
+  private readonly options: Required<Omit<BadgeOptions, "count">> &
+    Pick<BadgeOptions, "count">;
+
+  /**
+   * Creates an instance of Badge.
+   * @param options - Count, position, colors and sizing rules.
+   * @throws {RangeError} If the count, max, position, scale or minimum font size is invalid.
+   */
+  constructor(options: BadgeOptions = {}) {
+    const { count, max = 99, position = "top-right" } = options;
+
+    if (count !== undefined && (!Number.isInteger(count) || count < 0)) {
+      throw new RangeError("Badge count must be a non-negative integer");
+    }
+    if (!Number.isInteger(max) || max <= 0) {
+      throw new RangeError("Badge max must be a positive integer");
+    }
+    if (!POSITIONS.includes(position)) {
+      throw new RangeError(
+        `Badge position must be one of ${POSITIONS.join(", ")}`,
+      );
+    }
+    if (
+      typeof options.scale === "number" &&
+      !(options.scale > 0 && options.scale <= 1)
+    ) {
+      throw new RangeError("Badge scale must be between 0 and 1");
+    }
+    if (options.minFontSize !== undefined && !(options.minFontSize >= 0)) {
+      throw new RangeError("Badge minimum font size must be non-negative");
+    }
+
+    this.options = {
+      count,
+      max,
+      position,
+      backgroundColor: options.backgroundColor ?? "#ef4444",
+      color: options.color ?? "white",
+      fontFamily: options.fontFamily ?? "Helvetica",
+      scale: options.scale ?? defaultScale,
+      minFontSize: options.minFontSize ?? 8,
+    };
+  }
+
+  /**
+   * Text shown in the badge: the count, capped as "<max>+", or null for a dot.
+   */
+  public get label(): string | null {
+    const { count, max } = this.options;
+    if (count === undefined) return null;
+    return count > max ? `${max}+` : String(count);
+  }
+
+  /**
+   * Draws the badge on a copy of the source; the source is never modified.
+   * @param source - Canvas or bitmap to draw the badge on.
+   * @returns A new canvas of the same size with the badge.
+   * @throws {TypeError} If the source is not an HTMLCanvasElement, OffscreenCanvas or ImageBitmap.
+   */
+  public composite(source: FaviconSource): FaviconCanvas {
+    if (!isCanvasSource(source)) {
+      throw new TypeError(
+        "Parameter must be an HTMLCanvasElement, OffscreenCanvas or ImageBitmap",
+      );
+    }
+
+    const { width, height } = source;
+    const canvas = createCanvas(width, height);
+    const ctx = getContext2d(canvas);
+    ctx.drawImage(source, 0, 0, width, height);
+
+    if (this.options.count !== 0) {
+      this.draw(ctx, width, height);
+    }
+
+    return canvas;
+  }
+
+  /**
+   * Draws the badge pill, or a dot when there is no count or the count would
+   * be smaller than the minimum legible font size.
+   */
+  private draw(ctx: Canvas2DContext, width: number, height: number): void {
+    const { scale, position, minFontSize, fontFamily } = this.options;
+    const size = Math.min(width, height);
+    const ratio = typeof scale === "function" ? scale(size) : scale;
+    const badgeHeight = Math.max(1, Math.round(size * ratio));
+    const fontSize = Math.round(badgeHeight * 0.8);
+    const label = fontSize >= minFontSize ? this.label : null;
+
+    let badgeWidth: number;
+    let pillHeight: number;
+    if (label === null) {
+      // A dot reads better slightly smaller than a numbered badge
+      pillHeight = Math.max(1, Math.round(badgeHeight * 0.7));
+      badgeWidth = pillHeight;
+    } else {
+      ctx.font = `bold ${fontSize}px ${fontFamily}`;
+      const textWidth = ctx.measureText(label).width;
+      pillHeight = badgeHeight;
+      badgeWidth = Math.min(
+        width,
+        Math.max(badgeHeight, Math.ceil(textWidth + badgeHeight * 0.4)),
+      );
+    }
+
+    const x = position.endsWith("right") ? width - badgeWidth : 0;
+    const y = position.startsWith("bottom") ? height - pillHeight : 0;
+    const radius = pillHeight / 2;
+
+    ctx.fillStyle = this.options.backgroundColor;
+    ctx.beginPath();
+    ctx.moveTo(x + radius, y);
+    ctx.arcTo(x + badgeWidth, y, x + badgeWidth, y + pillHeight, radius);
+    ctx.arcTo(x + badgeWidth, y + pillHeight, x, y + pillHeight, radius);
+    ctx.arcTo(x, y + pillHeight, x, y, radius);
+    ctx.arcTo(x, y, x + badgeWidth, y, radius);
+    ctx.closePath();
+    ctx.fill();
+
+    if (label !== null) {
+      ctx.fillStyle = this.options.color;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(label, x + badgeWidth / 2, y + pillHeight / 2);
+    }
+  }
+}
+
+export default Badge;
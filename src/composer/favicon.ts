@@ -1,19 +1,32 @@
 import Bundle from "../generators/bundle";
+import Icns from "../generators/icns";
 import Ico from "../generators/ico";
+import Package from "../generators/package";
 import {
   BundleGeneratorOptions,
+  FaviconSource,
+  GeneratedBinaryBundle,
   GeneratedImageBundle,
+  IcnsOsType,
+  IcoGeneratorOptions,
   ImageBundleOptions,
+  PackageExportOptions,
+  PngGeneratorOptions,
+  ResampleFilter,
+  ResizedCanvas,
 } from "../types";
 import Png from "../generators/png";
+import { isCanvasSource } from "../utils/canvas";
 import Resize from "../utils/resize";
 
-class FaviconComposer {
-  private readonly canvas: HTMLCanvasElement;
+class FaviconComposer<T extends FaviconSource = HTMLCanvasElement> {
+  private readonly canvas: T;
 
-  constructor(canvas: HTMLCanvasElement) {
-    if (!(canvas instanceof HTMLCanvasElement)) {
-      throw new TypeError("Parameter must be an HTMLCanvasElement");
+  constructor(canvas: T) {
+    if (!isCanvasSource(canvas)) {
+      throw new TypeError(
+        "Parameter must be an HTMLCanvasElement, OffscreenCanvas or ImageBitmap",
+      );
     }
     this.canvas = canvas;
   }
@@ -30,31 +43,137 @@ class FaviconComposer {
     return new Bundle(this.canvas).generate(options ?? {});
   }
 
+  /**
+   * Generates a bundle of favicon Blobs
+   * @param options - ICO and PNG sizes to include
+   * @returns Bundle containing an ICO Blob and PNG Blobs keyed by size
+   */
+  public bundleBlobs(
+    options: BundleGeneratorOptions = {},
+  ): Promise<GeneratedBinaryBundle> {
+    return new Bundle(this.canvas).generateBlobs(options);
+  }
+
   /**
    * Generates an ICO file with specified sizes
    * @param sizes - Array of sizes in pixels
+   * @param options - Per-size bit depth, dithering, resampling and badge options
    * @returns Data URL of ICO image
    */
-  public ico(sizes: number[] = [16, 32, 48]): string {
-    return new Ico(this.canvas).generate(sizes);
+  public ico(
+    sizes: number[] = [16, 32, 48],
+    options: IcoGeneratorOptions = {},
+  ): string {
+    return new Ico(this.canvas).generate(sizes, options);
+  }
+
+  /**
+   * Generates ICO file bytes with specified sizes
+   * @param sizes - Array of sizes in pixels
+   * @param options - Per-size bit depth, dithering, resampling and badge options
+   * @returns ICO file contents
+   */
+  public icoBytes(
+    sizes: number[] = [16, 32, 48],
+    options: IcoGeneratorOptions = {},
+  ): Promise<Uint8Array> {
+    return new Ico(this.canvas).generateBytes(sizes, options);
+  }
+
+  /**
+   * Generates an ICO Blob with specified sizes
+   * @param sizes - Array of sizes in pixels
+   * @param options - Per-size bit depth, dithering, resampling and badge options
+   * @returns Blob of type image/x-icon
+   */
+  public icoBlob(
+    sizes: number[] = [16, 32, 48],
+    options: IcoGeneratorOptions = {},
+  ): Promise<Blob> {
+    return new Ico(this.canvas).generateBlob(sizes, options);
+  }
+
+  /**
+   * Generates an Apple ICNS file with PNG-backed entries
+   * @param osTypes - OSTypes to include (default: ic07-ic14)
+   * @returns Data URL of ICNS image
+   */
+  public icns(osTypes?: IcnsOsType[]): string {
+    return new Icns(this.canvas).generate(osTypes);
+  }
+
+  /**
+   * Generates Apple ICNS file bytes with PNG-backed entries
+   * @param osTypes - OSTypes to include (default: ic07-ic14)
+   * @returns ICNS file contents
+   */
+  public icnsBytes(osTypes?: IcnsOsType[]): Promise<Uint8Array> {
+    return new Icns(this.canvas).generateBytes(osTypes);
+  }
+
+  /**
+   * Generates an Apple ICNS Blob with PNG-backed entries
+   * @param osTypes - OSTypes to include (default: ic07-ic14)
+   * @returns Blob of type image/icns
+   */
+  public icnsBlob(osTypes?: IcnsOsType[]): Promise<Blob> {
+    return new Icns(this.canvas).generateBlob(osTypes);
   }
 
   /**
    * Generates a PNG image of specified size
    * @param size - Size in pixels (width and height)
+   * @param options - Resampling filter and badge
    * @returns Data URL of PNG image
    */
-  public png(size: number): string {
-    return new Png(this.canvas).generate(size);
+  public png(size: number, options: PngGeneratorOptions = {}): string {
+    return new Png(this.canvas).generate(size, options);
+  }
+
+  /**
+   * Generates PNG bytes of specified size
+   * @param size - Size in pixels (width and height)
+   * @param options - Resampling filter and badge
+   * @returns PNG file contents
+   */
+  public pngBytes(
+    size: number,
+    options: PngGeneratorOptions = {},
+  ): Promise<Uint8Array> {
+    return new Png(this.canvas).generateBytes(size, options);
+  }
+
+  /**
+   * Generates a PNG Blob of specified size
+   * @param size - Size in pixels (width and height)
+   * @param options - Resampling filter and badge
+   * @returns Blob of type image/png
+   */
+  public pngBlob(
+    size: number,
+    options: PngGeneratorOptions = {},
+  ): Promise<Blob> {
+    return new Png(this.canvas).generateBlob(size, options);
+  }
+
+  /**
+   * Generates a ZIP package with the ICO, named PNGs, HTML snippet and web
+   * manifest, using the same file names as the CLI presets
+   * @param options - Preset, naming, manifest and rendering options
+   * @returns Blob of type application/zip
+   */
+  public zip(options: PackageExportOptions = {}): Promise<Blob> {
+    return new Package(this.canvas).generateBlob(options);
   }
 
   /**
    * Resizes the canvas to specified dimensions
    * @param size - Size in pixels (width and height)
-   * @returns Resized canvas element
+   * @param filter - Resampling filter (default: browser `drawImage` scaling)
+   * @returns Resized canvas, an HTMLCanvasElement for DOM sources
    */
-  public resize(size: number): HTMLCanvasElement {
-    return new Resize(this.canvas).resize(size, size);
+  public resize(size: number, filter?: ResampleFilter): ResizedCanvas<T> {
+    return new Resize(this.canvas).resize(size, size, filter);
   }
 }
 
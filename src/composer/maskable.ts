@@ -0,0 +1,107 @@
+import {
+  FaviconCanvas,
+  FaviconSource,
+  MaskableOptions,
+  MaskableVariantOptions,
+  ResampleFilter,
+} from "../types";
+import { createCanvas, getContext2d, isCanvasSource } from "../utils/canvas";
+import Resize from "../utils/resize";
+
+export const DEFAULT_MASKABLE_SIZES = [192, 512];
+
+/**
+ * Share of a maskable icon that every platform mask keeps visible: a circle
+ * whose diameter is 80% of the icon.
+ */
+export const DEFAULT_SAFE_ZONE = 0.8;
+
+/**
+ * Resolves the `maskable` option of bundles and packages.
+ * @param option - True for the defaults, or sizes and rendering options.
+ * @returns The sizes and rendering options, or undefined when disabled.
+ */
+export function resolveMaskableVariants(
+  option: boolean | MaskableVariantOptions | undefined,
+): { sizes: number[]; options: MaskableOptions } | undefined {
+  if (!option) return undefined;
+
+  const { sizes = DEFAULT_MASKABLE_SIZES, ...options } =
+    option === true ? {} : option;
+  return { sizes, options };
+}
+
+/**
+ * Renders maskable icons: the source scaled until its corners lie inside the
+ * safe zone circle and centered on a solid background, so platform masks
+ * never crop it.
+ */
+class Maskable {
+  private readonly options: Required<MaskableOptions>;
+
+  /**
+   * Creates an instance of Maskable.
+   * @param options - Background color and safe zone.
+   * @throws {RangeError} If the safe zone is not between 0 and 1.
+   */
+  constructor(options: MaskableOptions = {}) {
+    const { backgroundColor = "#ffffff", safeZone = DEFAULT_SAFE_ZONE } =
+      options;
+
+    if (!(safeZone > 0 && safeZone <= 1)) {
+      throw new RangeError("Safe zone must be between 0 and 1");
+    }
+
+    this.options = { backgroundColor, safeZone };
+  }
+
+  /**
+   * Draws the source inside the safe zone circle of a new square canvas,
+   * keeping its aspect ratio.
+   * @param source - Canvas or bitmap to fit.
+   * @param size - Output size in pixels (width and height).
+   * @param filter - Resampling filter (default: browser `drawImage` scaling).
+   * @returns A new canvas of the given size.
+   * @throws {TypeError} If the source is not an HTMLCanvasElement, OffscreenCanvas or ImageBitmap.
+   * @throws {RangeError} If the size is not a positive integer.
+   */
+  public composite(
+    source: FaviconSource,
+    size: number,
+    filter?: ResampleFilter,
+  ): FaviconCanvas {
+    if (!isCanvasSource(source)) {
+      throw new TypeError(
+        "Parameter must be an HTMLCanvasElement, OffscreenCanvas or ImageBitmap",
+      );
+    }
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new RangeError("Size must be a positive integer");
+    }
+
+    // The largest square inside the circle has a side of diameter / √2
+    const scale =
+      (size * this.options.safeZone) /
+      Math.SQRT2 /
+      Math.max(source.width, source.height);
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+    const fitted = new Resize(source).resize(width, height, filter);
+
+    const canvas = createCanvas(size, size);
+    const ctx = getContext2d(canvas);
+    ctx.fillStyle = this.options.backgroundColor;
+    ctx.fillRect(0, 0, size, size);
+    ctx.drawImage(
+      fitted,
+      Math.round((size - width) / 2),
+      Math.round((size - height) / 2),
+      width,
+      height,
+    );
+
+    return canvas;
+  }
+}
+
+export default Maskable;
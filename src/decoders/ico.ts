@@ -0,0 +1,257 @@
+import PngDecoder from "./png";
+import { DecodedIcoFrame, IcoEntryInfo, IcoFileInfo } from "../types";
+
+/**
+ * Reads ICO and CUR files back into entry metadata and RGBA frames.
+ * Works on raw bytes, so it runs in browsers, workers and Node.js.
+ */
+class IcoDecoder {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private readonly info: IcoFileInfo;
+
+  /**
+   * Creates an instance of IcoDecoder.
+   * @param data - The ICO or CUR file contents.
+   * @throws {TypeError} If the parameter is not an ArrayBuffer or Uint8Array.
+   * @throws {Error} If the icon directory is malformed.
+   */
+  constructor(data: ArrayBuffer | Uint8Array) {
+    if (!(data instanceof ArrayBuffer) && !(data instanceof Uint8Array)) {
+      throw new TypeError("Parameter must be an ArrayBuffer or Uint8Array");
+    }
+    this.bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    this.view = new DataView(
+      this.bytes.buffer,
+      this.bytes.byteOffset,
+      this.bytes.byteLength,
+    );
+    this.info = this.readDirectory();
+  }
+
+  /**
+   * Lists the file type and every directory entry with its size, bit depth and encoding.
+   * @returns Parsed header information.
+   */
+  public inspect(): IcoFileInfo {
+    return {
+      type: this.info.type,
+      entries: this.info.entries.map((entry) => ({ ...entry })),
+    };
+  }
+
+  /**
+   * Returns the raw payload (BMP without file header, or a complete PNG) of an entry.
+   * @param index - Position of the entry in the icon directory.
+   * @throws {RangeError} If the index does not exist.
+   */
+  public getEntryData(index: number): Uint8Array {
+    const entry = this.getEntry(index);
+    return this.bytes.subarray(entry.offset, entry.offset + entry.byteSize);
+  }
+
+  /**
+   * Decodes every entry into RGBA frames.
+   * @returns Decoded frames in directory order.
+   */
+  public async decode(): Promise<DecodedIcoFrame[]> {
+    return Promise.all(
+      this.info.entries.map((entry) => this.decodeEntry(entry.index)),
+    );
+  }
+
+  /**
+   * Decodes a single entry into an RGBA frame.
+   * @param index - Position of the entry in the icon directory.
+   * @returns The decoded frame.
+   * @throws {RangeError} If the index does not exist.
+   * @throws {Error} If the entry payload is corrupt or unsupported.
+   */
+  public async decodeEntry(index: number): Promise<DecodedIcoFrame> {
+    const entry = this.getEntry(index);
+    const payload = this.getEntryData(index);
+
+    if (entry.encoding === "png") {
+      const { data } = await new PngDecoder(payload).decode();
+      return { ...entry, data };
+    }
+
+    return { ...entry, data: this.decodeBitmap(payload, entry) };
+  }
+
+  private getEntry(index: number): IcoEntryInfo {
+    const entry = this.info.entries[index];
+    if (!entry) {
+      throw new RangeError(`ICO entry ${index} does not exist`);
+    }
+    return entry;
+  }
+
+  /**
+   * Parses ICONDIR and every ICONDIRENTRY, reading real dimensions and bit
+   * depth from the embedded BMP or PNG headers.
+   */
+  private readDirectory(): IcoFileInfo {
+    if (this.bytes.length < 6) {
+      throw new Error("Invalid ICO file: header is truncated");
+    }
+
+    const reserved = this.view.getUint16(0, true);
+    const type = this.view.getUint16(2, true);
+    const count = this.view.getUint16(4, true);
+
+    if (reserved !== 0 || (type !== 1 && type !== 2)) {
+      throw new Error("Invalid ICO file: unrecognized header");
+    }
+    if (count === 0) {
+      throw new Error("Invalid ICO file: no images in directory");
+    }
+    if (this.bytes.length < 6 + count * 16) {
+      throw new Error("Invalid ICO file: directory is truncated");
+    }
+
+    const entries: IcoEntryInfo[] = [];
+
+    for (let index = 0; index < count; index++) {
+      const base = 6 + index * 16;
+      const byteSize = this.view.getUint32(base + 8, true);
+      const offset = this.view.getUint32(base + 12, true);
+
+      if (offset + byteSize > this.bytes.length || byteSize < 8) {
+        throw new Error(`Invalid ICO file: entry ${index} is out of bounds`);
+      }
+
+      const payload = this.bytes.subarray(offset, offset + byteSize);
+      const entry: IcoEntryInfo = {
+        index,
+        width: this.view.getUint8(base) || 256,
+        height: this.view.getUint8(base + 1) || 256,
+        bitDepth: type === 1 ? this.view.getUint16(base + 6, true) : 0,
+        colorCount: this.view.getUint8(base + 2),
+        encoding: PngDecoder.isPng(payload) ? "png" : "bmp",
+        byteSize,
+        offset,
+      };
+
+      if (type === 2) {
+        entry.hotspot = {
+          x: this.view.getUint16(base + 4, true),
+          y: this.view.getUint16(base + 6, true),
+        };
+      }
+
+      if (entry.encoding === "png") {
+        const header = new PngDecoder(payload).readHeader();
+        entry.width = header.width;
+        entry.height = header.height;
+        entry.bitDepth = header.bitDepth * header.channels;
+      } else {
+        if (byteSize < 40) {
+          throw new Error(`Invalid ICO file: entry ${index} is truncated`);
+        }
+        const bitmap = new DataView(
+          payload.buffer,
+          payload.byteOffset,
+          payload.byteLength,
+        );
+        entry.width = Math.abs(bitmap.getInt32(4, true));
+        entry.height = Math.abs(bitmap.getInt32(8, true)) / 2;
+        entry.bitDepth = bitmap.getUint16(14, true);
+      }
+
+      entries.push(entry);
+    }
+
+    return { type: type === 1 ? "icon" : "cursor", entries };
+  }
+
+  /**
+   * Decodes a BMP entry (XOR image plus AND mask) into RGBA pixels.
+   */
+  private decodeBitmap(
+    payload: Uint8Array,
+    entry: IcoEntryInfo,
+  ): Uint8ClampedArray {
+    const view = new DataView(
+      payload.buffer,
+      payload.byteOffset,
+      payload.byteLength,
+    );
+    const headerSize = view.getUint32(0, true);
+    const bitDepth = view.getUint16(14, true);
+    const compression = view.getUint32(16, true);
+    const colorsUsed = headerSize >= 36 ? view.getUint32(32, true) : 0;
+    const { width, height } = entry;
+
+    // BI_BITFIELDS is only accepted for 32-bit entries using the standard BGRA layout
+    if (compression !== 0 && !(compression === 3 && bitDepth === 32)) {
+      throw new Error(`Unsupported BMP compression: ${compression}`);
+    }
+    if (![1, 4, 8, 24, 32].includes(bitDepth)) {
+      throw new Error(`Unsupported BMP bit depth: ${bitDepth}`);
+    }
+
+    const paletteSize = bitDepth <= 8 ? colorsUsed || 1 << bitDepth : 0;
+    const paletteOffset =
+      headerSize + (compression === 3 && headerSize === 40 ? 12 : 0);
+    const pixelOffset = paletteOffset + paletteSize * 4;
+    const rowSize = Math.ceil((width * bitDepth) / 32) * 4;
+    const maskOffset = pixelOffset + rowSize * height;
+    const maskRowSize = Math.ceil(width / 32) * 4;
+    const hasMask = maskOffset + maskRowSize * height <= payload.length;
+
+    if (maskOffset > payload.length) {
+      throw new Error(`Invalid ICO file: entry ${entry.index} is truncated`);
+    }
+
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    let hasAlpha = false;
+
+    for (let y = 0; y < height; y++) {
+      const row = pixelOffset + (height - 1 - y) * rowSize;
+      for (let x = 0; x < width; x++) {
+        const dest = (y * width + x) * 4;
+
+        if (bitDepth >= 24) {
+          const source = row + x * (bitDepth / 8);
+          pixels[dest] = payload[source + 2];
+          pixels[dest + 1] = payload[source + 1];
+          pixels[dest + 2] = payload[source];
+          pixels[dest + 3] = bitDepth === 32 ? payload[source + 3] : 255;
+          hasAlpha = hasAlpha || (bitDepth === 32 && payload[source + 3] > 0);
+          continue;
+        }
+
+        const bit = x * bitDepth;
+        const index =
+          (payload[row + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) &
+          ((1 << bitDepth) - 1);
+        const color = paletteOffset + Math.min(index, paletteSize - 1) * 4;
+        pixels[dest] = payload[color + 2];
+        pixels[dest + 1] = payload[color + 1];
+        pixels[dest + 2] = payload[color];
+        pixels[dest + 3] = 255;
+      }
+    }
+
+    // 32-bit entries carry real alpha; only fall back to the mask when it is empty
+    if (bitDepth === 32 && !hasAlpha) {
+      for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+    }
+
+    if (hasMask && !(bitDepth === 32 && hasAlpha)) {
+      for (let y = 0; y < height; y++) {
+        const row = maskOffset + (height - 1 - y) * maskRowSize;
+        for (let x = 0; x < width; x++) {
+          if (payload[row + (x >> 3)] & (0x80 >> (x & 7))) {
+            pixels[(y * width + x) * 4 + 3] = 0;
+          }
+        }
+      }
+    }
+
+    return pixels;
+  }
+}
+
+export default IcoDecoder;
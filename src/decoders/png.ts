@@ -0,0 +1,326 @@
+import { concatBytes } from "../utils/binary";
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+// Caps the RGBA buffer at 256 MB, far above any favicon source
+const MAX_PIXELS = 8192 * 8192;
+// Adam7 passes as [startX, startY, stepX, stepY]
+const ADAM7_PASSES = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+export interface PngHeader {
+  width: number;
+  height: number;
+  /** Bits per sample */
+  bitDepth: number;
+  /** PNG color type (0, 2, 3, 4 or 6) */
+  colorType: number;
+  /** Samples per pixel for the color type */
+  channels: number;
+  interlaced: boolean;
+}
+
+export interface DecodedPng {
+  width: number;
+  height: number;
+  /** RGBA pixel data, row-major from the top-left corner */
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Decodes PNG payloads into RGBA pixels without relying on a canvas, so it
+ * works in browsers, workers and Node.js alike.
+ */
+class PngDecoder {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+
+  /**
+   * Creates an instance of PngDecoder.
+   * @param bytes - The PNG file contents.
+   * @throws {Error} If the bytes do not start with a PNG signature.
+   */
+  constructor(bytes: Uint8Array) {
+    if (!PngDecoder.isPng(bytes)) {
+      throw new Error("Invalid PNG data: missing signature");
+    }
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /**
+   * Checks whether the bytes start with the PNG signature.
+   */
+  static isPng(bytes: Uint8Array): boolean {
+    return (
+      bytes.length >= PNG_SIGNATURE.length &&
+      PNG_SIGNATURE.every((value, index) => bytes[index] === value)
+    );
+  }
+
+  /**
+   * Reads the IHDR chunk.
+   * @returns The image header.
+   * @throws {Error} If the IHDR chunk is missing or truncated.
+   */
+  public readHeader(): PngHeader {
+    if (this.bytes.length < 33 || this.readType(12) !== "IHDR") {
+      throw new Error("Invalid PNG data: missing IHDR chunk");
+    }
+
+    return {
+      width: this.view.getUint32(16),
+      height: this.view.getUint32(20),
+      bitDepth: this.view.getUint8(24),
+      colorType: this.view.getUint8(25),
+      channels: CHANNELS[this.view.getUint8(25)] ?? 0,
+      interlaced: this.view.getUint8(28) === 1,
+    };
+  }
+
+  /**
+   * Decodes the image into 8-bit RGBA pixels.
+   * @returns The decoded image.
+   * @throws {Error} If the PNG uses an unsupported color type or size, or is corrupt.
+   */
+  public async decode(): Promise<DecodedPng> {
+    const header = this.readHeader();
+    const { channels, width, height } = header;
+    if (!channels) {
+      throw new Error(`Unsupported PNG color type: ${header.colorType}`);
+    }
+    // Checked before anything is allocated, since the header is untrusted
+    if (width === 0 || height === 0) {
+      throw new Error("Invalid PNG data: zero width or height");
+    }
+    if (width * height > MAX_PIXELS) {
+      throw new Error(
+        `Unsupported PNG size: ${width}x${height} (at most ${MAX_PIXELS} pixels)`,
+      );
+    }
+
+    let palette: Uint8Array | undefined;
+    let transparency: Uint8Array | undefined;
+    const idat: Uint8Array[] = [];
+
+    for (let offset = 8; offset + 12 <= this.bytes.length;) {
+      const length = this.view.getUint32(offset);
+      const type = this.readType(offset + 4);
+      const data = this.bytes.subarray(offset + 8, offset + 8 + length);
+
+      if (type === "PLTE") palette = data;
+      if (type === "tRNS") transparency = data;
+      if (type === "IDAT") idat.push(data);
+      if (type === "IEND") break;
+
+      offset += 12 + length;
+    }
+
+    const readPixel = this.createPixelReader(header, palette, transparency);
+    const raw = await inflate(concatBytes(idat));
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    let cursor = 0;
+
+    const passes = header.interlaced ? ADAM7_PASSES : [[0, 0, 1, 1]];
+    for (const [startX, startY, stepX, stepY] of passes) {
+      const passWidth = Math.ceil((width - startX) / stepX);
+      const passHeight = Math.ceil((height - startY) / stepY);
+      if (passWidth <= 0 || passHeight <= 0) continue;
+
+      const stride = Math.ceil((passWidth * channels * header.bitDepth) / 8);
+      const rows = unfilter(
+        raw,
+        cursor,
+        stride,
+        passHeight,
+        Math.max(1, (channels * header.bitDepth) / 8),
+      );
+      cursor += (stride + 1) * passHeight;
+
+      for (let y = 0; y < passHeight; y++) {
+        const row = rows.subarray(y * stride, (y + 1) * stride);
+        for (let x = 0; x < passWidth; x++) {
+          const dest = ((startY + y * stepY) * width + startX + x * stepX) * 4;
+          readPixel(row, x, pixels, dest);
+        }
+      }
+    }
+
+    return { width, height, data: pixels };
+  }
+
+  /**
+   * Builds a function that converts one pixel of an unfiltered row into RGBA.
+   * @throws {Error} If an indexed-color image has no palette.
+   */
+  private createPixelReader(
+    header: PngHeader,
+    palette?: Uint8Array,
+    transparency?: Uint8Array,
+  ): (
+    row: Uint8Array,
+    x: number,
+    out: Uint8ClampedArray,
+    dest: number,
+  ) => void {
+    const { bitDepth, colorType, channels } = header;
+    const maxSample = (1 << bitDepth) - 1;
+    const sample = (row: Uint8Array, index: number): number => {
+      if (bitDepth === 8) return row[index];
+      if (bitDepth === 16) return (row[index * 2] << 8) | row[index * 2 + 1];
+      const bit = index * bitDepth;
+      return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+    };
+    const scale = (value: number): number =>
+      bitDepth === 16 ? value >> 8 : Math.round((value * 255) / maxSample);
+    const transparentKey = (index: number): number | undefined =>
+      transparency && transparency.length >= index * 2 + 2
+        ? (transparency[index * 2] << 8) | transparency[index * 2 + 1]
+        : undefined;
+
+    if (colorType === 3) {
+      if (!palette) {
+        throw new Error("Invalid PNG data: missing PLTE chunk");
+      }
+
+      return (row, x, out, dest) => {
+        const index = sample(row, x);
+        out[dest] = palette[index * 3];
+        out[dest + 1] = palette[index * 3 + 1];
+        out[dest + 2] = palette[index * 3 + 2];
+        out[dest + 3] =
+          transparency && index < transparency.length
+            ? transparency[index]
+            : 255;
+      };
+    }
+
+    return (row, x, out, dest) => {
+      const base = x * channels;
+
+      if (colorType === 0 || colorType === 4) {
+        const gray = sample(row, base);
+        const value = scale(gray);
+        out[dest] = value;
+        out[dest + 1] = value;
+        out[dest + 2] = value;
+        out[dest + 3] =
+          colorType === 4
+            ? scale(sample(row, base + 1))
+            : gray === transparentKey(0)
+              ? 0
+              : 255;
+        return;
+      }
+
+      const r = sample(row, base);
+      const g = sample(row, base + 1);
+      const b = sample(row, base + 2);
+      out[dest] = scale(r);
+      out[dest + 1] = scale(g);
+      out[dest + 2] = scale(b);
+      out[dest + 3] =
+        colorType === 6
+          ? scale(sample(row, base + 3))
+          : r === transparentKey(0) &&
+              g === transparentKey(1) &&
+              b === transparentKey(2)
+            ? 0
+            : 255;
+    };
+  }
+
+  private readType(offset: number): string {
+    return String.fromCharCode(
+      ...Array.from(this.bytes.subarray(offset, offset + 4)),
+    );
+  }
+}
+
+/**
+ * Reverses PNG scanline filters for one (sub-)image.
+ */
+function unfilter(
+  raw: Uint8Array,
+  offset: number,
+  stride: number,
+  height: number,
+  bytesPerPixel: number,
+): Uint8Array {
+  const rows = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const source = offset + y * (stride + 1);
+    if (source + stride >= raw.length) {
+      throw new Error("Invalid PNG data: truncated image data");
+    }
+
+    const filter = raw[source];
+    const current = y * stride;
+    const previous = current - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const value = raw[source + 1 + x];
+      const left = x >= bytesPerPixel ? rows[current + x - bytesPerPixel] : 0;
+      const up = y > 0 ? rows[previous + x] : 0;
+      const upLeft =
+        y > 0 && x >= bytesPerPixel ? rows[previous + x - bytesPerPixel] : 0;
+
+      switch (filter) {
+        case 0:
+          rows[current + x] = value;
+          break;
+        case 1:
+          rows[current + x] = value + left;
+          break;
+        case 2:
+          rows[current + x] = value + up;
+          break;
+        case 3:
+          rows[current + x] = value + ((left + up) >> 1);
+          break;
+        case 4:
+          rows[current + x] = value + paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Invalid PNG data: unknown filter type ${filter}`);
+      }
+    }
+  }
+
+  return rows;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  if (distanceUp <= distanceUpLeft) return up;
+  return upLeft;
+}
+
+/**
+ * Inflates zlib data with the platform DecompressionStream.
+ */
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("DecompressionStream is not available in this runtime");
+  }
+
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+export default PngDecoder;
@@ -0,0 +1,181 @@
+import LinkManager from "./links";
+import PngGenerator from "../generators/png";
+import {
+  FaviconAnimatorOptions,
+  FaviconCanvas,
+  FaviconFrameRenderer,
+  FaviconSource,
+} from "../types";
+import { createCanvas, getContext2d, isCanvasSource } from "../utils/canvas";
+
+/**
+ * Animates the document icon from a frame renderer or a list of canvases.
+ */
+class Animator {
+  private readonly frames: FaviconFrameRenderer | FaviconSource[];
+  private readonly fps: number;
+  private readonly size: number;
+  private readonly loop: boolean;
+  private readonly options: FaviconAnimatorOptions;
+  private readonly document: Document;
+  private readonly links: LinkManager;
+  private readonly cache = new Map<number, string>();
+  private canvas: FaviconCanvas | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private frame = 0;
+  private running = false;
+
+  /**
+   * Creates an instance of Animator.
+   * @param frames - Callback drawing each frame, or canvases shown in order.
+   * @param options - Frame rate, icon size, looping and target document.
+   * @throws {TypeError} If the frames are neither a function nor a list of canvases.
+   * @throws {RangeError} If the list is empty, or the fps or size is invalid.
+   * @throws {Error} If no document is available.
+   */
+  constructor(
+    frames: FaviconFrameRenderer | FaviconSource[],
+    options: FaviconAnimatorOptions = {},
+  ) {
+    if (typeof frames !== "function") {
+      if (!Array.isArray(frames) || !frames.every(isCanvasSource)) {
+        throw new TypeError(
+          "Frames must be a render callback or a list of canvases",
+        );
+      }
+      if (frames.length === 0) {
+        throw new RangeError("At least one frame must be provided");
+      }
+    }
+
+    const { fps = 10, size = 32, loop = true } = options;
+    if (!Number.isFinite(fps) || fps <= 0 || fps > 60) {
+      throw new RangeError("FPS must be a number between 0 and 60");
+    }
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new RangeError("Size must be a positive integer");
+    }
+
+    this.frames = frames;
+    this.fps = fps;
+    this.size = size;
+    this.loop = loop;
+    this.options = options;
+    this.links = new LinkManager(options.document);
+    this.document = options.document ?? document;
+  }
+
+  /**
+   * Whether frames are currently scheduled. Stays true while paused in a
+   * hidden tab.
+   */
+  public get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Shows the first frame and starts swapping the icon at the target fps.
+   * Does nothing if the animation is already running.
+   * @throws {Error} If the first frame fails to render, after stopping.
+   */
+  public start(): void {
+    if (this.running) return;
+
+    this.running = true;
+    this.frame = 0;
+    this.document.addEventListener(
+      "visibilitychange",
+      this.handleVisibilityChange,
+    );
+
+    if (this.document.visibilityState !== "hidden") {
+      this.tick();
+    }
+  }
+
+  /**
+   * Stops the animation and restores the document's original icon.
+   */
+  public stop(): void {
+    this.halt();
+    this.links.restore();
+  }
+
+  private readonly handleVisibilityChange = (): void => {
+    if (!this.running) return;
+
+    if (this.document.visibilityState === "hidden") {
+      this.clearTimer();
+    } else if (this.timer === null) {
+      this.tick();
+    }
+  };
+
+  /**
+   * Shows the current frame and schedules the next one. A frame that fails
+   * to render stops the animation before the error is rethrown.
+   */
+  private tick(): void {
+    this.timer = null;
+    try {
+      this.links.apply(this.render(this.frame));
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+
+    const frameCount = Array.isArray(this.frames) ? this.frames.length : 0;
+    if (frameCount > 0 && !this.loop && this.frame >= frameCount - 1) {
+      // Keep showing the last frame until stop() restores the original icon
+      this.halt();
+      return;
+    }
+
+    this.frame++;
+    this.timer = setTimeout(() => this.tick(), 1000 / this.fps);
+  }
+
+  /**
+   * Renders a frame to a PNG data URL. Canvas frames are rendered once and cached.
+   */
+  private render(frame: number): string {
+    if (Array.isArray(this.frames)) {
+      const index = frame % this.frames.length;
+      const cached = this.cache.get(index);
+      if (cached) return cached;
+
+      const dataUrl = new PngGenerator(this.frames[index]).generate(this.size, {
+        filter: this.options.filter,
+      });
+      this.cache.set(index, dataUrl);
+      return dataUrl;
+    }
+
+    if (!this.canvas) {
+      this.canvas = createCanvas(this.size, this.size);
+    }
+    const ctx = getContext2d(this.canvas);
+    ctx.clearRect(0, 0, this.size, this.size);
+    this.frames(ctx, frame, this.size);
+
+    return new PngGenerator(this.canvas).generate(this.size);
+  }
+
+  private halt(): void {
+    this.running = false;
+    this.clearTimer();
+    this.document.removeEventListener(
+      "visibilitychange",
+      this.handleVisibilityChange,
+    );
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export default Animator;
@@ -0,0 +1,163 @@
+import { describeLinks } from "../presets";
+import {
+  FaviconLink,
+  FaviconMarkupOptions,
+  GeneratedImageBundle,
+} from "../types";
+
+const MANAGED_RELS = new Set([
+  "icon",
+  "shortcut icon",
+  "apple-touch-icon",
+  "apple-touch-icon-precomposed",
+]);
+
+interface SavedLink {
+  element: Element;
+  parent: Node;
+  nextSibling: Node | null;
+}
+
+/**
+ * Applies generated favicons to a document's `<link>` elements and restores
+ * the original links afterwards.
+ */
+class LinkManager {
+  private readonly document: Document;
+  private originals: SavedLink[] | null = null;
+  private applied: Element[] = [];
+  private signature = "";
+
+  /**
+   * Creates an instance of LinkManager.
+   * @param doc - Document to manage (default: the global document).
+   * @throws {Error} If no document is available.
+   */
+  constructor(doc?: Document) {
+    const target =
+      doc ?? (typeof document !== "undefined" ? document : undefined);
+    if (!target) {
+      throw new Error("FaviconLinkManager requires a document");
+    }
+    this.document = target;
+  }
+
+  /**
+   * Replaces the favicon links in `document.head` with a bundle's ICO, sized
+   * PNG icons and apple-touch-icon, or with a single icon URL. Links are
+   * recreated rather than updated in place, because Safari ignores `href`
+   * changes on existing favicon links.
+   * @param icons - Bundle of data URLs, or a single icon URL.
+   * @param options - Preset deciding which bundle sizes are linked.
+   * @returns False if the same links are already applied, true otherwise.
+   */
+  public apply(
+    icons: GeneratedImageBundle | string,
+    options: Pick<FaviconMarkupOptions, "preset"> = {},
+  ): boolean {
+    const links = this.resolveLinks(icons, options);
+    const signature = JSON.stringify(links);
+
+    if (
+      signature === this.signature &&
+      this.applied.every((element) => element.parentNode)
+    ) {
+      return false;
+    }
+
+    this.saveOriginals();
+    this.removeApplied();
+
+    const head = this.document.head;
+    this.applied = links.map((link) => {
+      const element = this.document.createElement("link");
+      for (const [name, value] of Object.entries(link)) {
+        element.setAttribute(name, value);
+      }
+      head.appendChild(element);
+      return element;
+    });
+    this.signature = signature;
+
+    return true;
+  }
+
+  /**
+   * Removes the applied links and puts the original links back in place.
+   */
+  public restore(): void {
+    this.removeApplied();
+
+    for (const { element, parent, nextSibling } of [
+      ...(this.originals ?? []),
+    ].reverse()) {
+      if (nextSibling && nextSibling.parentNode === parent) {
+        parent.insertBefore(element, nextSibling);
+      } else {
+        parent.appendChild(element);
+      }
+    }
+
+    this.originals = null;
+    this.signature = "";
+  }
+
+  /**
+   * Builds the de-duplicated link list, keeping the first link per rel and size.
+   */
+  private resolveLinks(
+    icons: GeneratedImageBundle | string,
+    options: Pick<FaviconMarkupOptions, "preset">,
+  ): FaviconLink[] {
+    if (typeof icons === "string") {
+      const type = /^data:([^;,]+)/.exec(icons)?.[1];
+      return [
+        type
+          ? { rel: "icon", type, href: icons }
+          : { rel: "icon", href: icons },
+      ];
+    }
+
+    const links = new Map<string, FaviconLink>();
+    for (const link of describeLinks(icons, { ...options, inline: true })) {
+      const key = `${link.rel}|${link.sizes ?? ""}`;
+      if (link.rel !== "manifest" && !links.has(key)) {
+        links.set(key, link);
+      }
+    }
+
+    return [...links.values()];
+  }
+
+  /**
+   * Detaches the document's own favicon links the first time icons are applied.
+   */
+  private saveOriginals(): void {
+    if (this.originals) return;
+
+    this.originals = Array.from(this.document.querySelectorAll("link"))
+      .filter((element) =>
+        MANAGED_RELS.has(
+          (element.getAttribute("rel") ?? "").trim().toLowerCase(),
+        ),
+      )
+      .map((element) => ({
+        element,
+        parent: element.parentNode as Node,
+        nextSibling: element.nextSibling,
+      }));
+
+    for (const { element } of this.originals) {
+      element.remove();
+    }
+  }
+
+  private removeApplied(): void {
+    for (const element of this.applied) {
+      element.remove();
+    }
+    this.applied = [];
+  }
+}
+
+export default LinkManager;
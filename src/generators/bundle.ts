@@ -1,10 +1,14 @@
 import IcoGenerator from "./ico";
 import {
   BundleGeneratorOptions,
+  FaviconSource,
+  GeneratedBinaryBundle,
   GeneratedImageBundle,
   ImageBundleOptions,
 } from "../types";
 import PngGenerator from "./png";
+import { resolveMaskableVariants } from "../composer/maskable";
+import { isCanvasSource, selectSource } from "../utils/canvas";
 
 const DEFAULT_ICO_SIZES = [16, 32, 48];
 const DEFAULT_PNG_SIZES = [16, 32, 150, 180, 192, 512];
@@ -18,18 +22,20 @@ const PNG_SIZE_KEYS: Record<number, keyof ImageBundleOptions> = {
 };
 
 class Bundle {
-  private readonly canvas: HTMLCanvasElement;
+  private readonly canvas: FaviconSource;
 
-  constructor(canvas: HTMLCanvasElement) {
-    if (!(canvas instanceof HTMLCanvasElement)) {
-      throw new TypeError("Parameter must be an HTMLCanvasElement");
+  constructor(canvas: FaviconSource) {
+    if (!isCanvasSource(canvas)) {
+      throw new TypeError(
+        "Parameter must be an HTMLCanvasElement, OffscreenCanvas or ImageBitmap",
+      );
     }
     this.canvas = canvas;
   }
 
   /**
    * Generates a bundle of various image formats and sizes
-   * @returns Object containing ICO and PNG data URLs
+   * @returns Object containing ICO and PNG data URLs, plus maskable PNGs when requested
    */
   public generate(): ImageBundleOptions;
   public generate(options: BundleGeneratorOptions): GeneratedImageBundle;
@@ -37,16 +43,22 @@ class Bundle {
     options: BundleGeneratorOptions = {},
   ): ImageBundleOptions | GeneratedImageBundle {
     const icoGenerator = new IcoGenerator(this.canvas);
-    const pngGenerator = new PngGenerator(this.canvas);
     const icoSizes = options.icoSizes ?? DEFAULT_ICO_SIZES;
     const pngSizes = options.pngSizes ?? DEFAULT_PNG_SIZES;
     const bundle: GeneratedImageBundle = {
-      ico: icoGenerator.generate(icoSizes),
+      ico: icoGenerator.generate(icoSizes, {
+        filter: options.filter,
+        badge: options.badge,
+        sources: options.sources,
+      }),
       pngs: {},
     };
 
     for (const size of pngSizes) {
-      const png = pngGenerator.generate(size);
+      const png = this.pngGenerator(size, options).generate(size, {
+        filter: options.filter,
+        badge: options.badge,
+      });
       bundle.pngs[size] = png;
 
       const key = PNG_SIZE_KEYS[size];
@@ -55,8 +67,73 @@ class Bundle {
       }
     }
 
+    // Maskable variants carry no badge: the mask may crop it
+    const maskable = resolveMaskableVariants(options.maskable);
+    if (maskable) {
+      bundle.maskable = {};
+      for (const size of maskable.sizes) {
+        bundle.maskable[size] = this.pngGenerator(size, options).generate(
+          size,
+          { filter: options.filter, maskable: maskable.options },
+        );
+      }
+    }
+
     return bundle;
   }
+
+  /**
+   * Generates a bundle of ICO and PNG Blobs without building data URLs
+   * @returns Object containing the ICO Blob and PNG Blobs keyed by size
+   */
+  public async generateBlobs(
+    options: BundleGeneratorOptions = {},
+  ): Promise<GeneratedBinaryBundle> {
+    const icoGenerator = new IcoGenerator(this.canvas);
+    const icoSizes = options.icoSizes ?? DEFAULT_ICO_SIZES;
+    const pngSizes = options.pngSizes ?? DEFAULT_PNG_SIZES;
+    const bundle: GeneratedBinaryBundle = {
+      ico: await icoGenerator.generateBlob(icoSizes, {
+        filter: options.filter,
+        badge: options.badge,
+        sources: options.sources,
+      }),
+      pngs: {},
+    };
+
+    for (const size of pngSizes) {
+      bundle.pngs[size] = await this.pngGenerator(size, options).generateBlob(
+        size,
+        { filter: options.filter, badge: options.badge },
+      );
+    }
+
+    const maskable = resolveMaskableVariants(options.maskable);
+    if (maskable) {
+      bundle.maskable = {};
+      for (const size of maskable.sizes) {
+        bundle.maskable[size] = await this.pngGenerator(
+          size,
+          options,
+        ).generateBlob(size, {
+          filter: options.filter,
+          maskable: maskable.options,
+        });
+      }
+    }
+
+    return bundle;
+  }
+
+  /**
+   * Creates a PNG generator for the source that covers the given size
+   */
+  private pngGenerator(
+    size: number,
+    options: BundleGeneratorOptions,
+  ): PngGenerator {
+    return new PngGenerator(selectSource(this.canvas, options.sources, size));
+  }
 }
 
 export default Bundle;
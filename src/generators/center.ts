@@ -1,11 +1,155 @@
-import { TextIconGeneratorOptions } from "../types";
+import {
+  Canvas2DContext,
+  FaviconCanvas,
+  FontLoadOptions,
+  LinearGradientFill,
+  RadialGradientFill,
+  TextIconFill,
+  TextIconGeneratorOptions,
+  TextIconShadow,
+  TextIconShape,
+  TextIconShapeName,
+} from "../types";
+import { createCanvas, getContext2d, isCanvas } from "../utils/canvas";
+import { loadFont } from "../utils/fonts";
+import {
+  TEXT_ICON_SHAPES,
+  getShapeCommands,
+  toPathData,
+  traceShape,
+} from "../utils/shapes";
+import { splitGraphemes } from "../utils/text";
 
-export class TextIconGenerator {
-  private readonly canvas: HTMLCanvasElement;
+interface TextLayout {
+  lines: string[];
+  font: string;
+  fontSize: number;
+  /** Distance between baselines in pixels */
+  lineHeight: number;
+  letterSpacing: number;
+}
+
+/**
+ * Validates a flat color or gradient option.
+ * @throws {Error} If a gradient has no stops or a stop offset is outside 0..1
+ */
+function assertFill(fill: unknown, name: string): void {
+  if (typeof fill === "string") return;
+  if (
+    !fill ||
+    typeof fill !== "object" ||
+    !("stops" in fill) ||
+    !Array.isArray(fill.stops) ||
+    fill.stops.length === 0 ||
+    !fill.stops.every(
+      (stop) =>
+        typeof stop?.color === "string" &&
+        typeof stop.offset === "number" &&
+        stop.offset >= 0 &&
+        stop.offset <= 1,
+    )
+  ) {
+    throw new Error(
+      `${name} must be a color or a gradient with stops between 0 and 1`,
+    );
+  }
+}
+
+type ResolvedTextIconOptions = Required<
+  Omit<
+    TextIconGeneratorOptions,
+    "border" | "textStroke" | "textShadow" | "darkColors"
+  >
+> &
+  Pick<
+    TextIconGeneratorOptions,
+    "border" | "textStroke" | "textShadow" | "darkColors"
+  >;
+
+/** Rounds away floating-point noise so right angles produce exact coordinates */
+const snap = (value: number): number => Math.round(value * 1e9) / 1e9;
+
+/**
+ * Computes gradient coordinates in icon space. Linear gradients run through
+ * the center and are long enough that the first and last stops touch the
+ * corners; radial gradients extend to the farthest corner by default, both
+ * as in CSS.
+ */
+function gradientGeometry(
+  fill: LinearGradientFill | RadialGradientFill,
+  width: number,
+  height: number,
+):
+  | { type: "linear"; x1: number; y1: number; x2: number; y2: number }
+  | { type: "radial"; cx: number; cy: number; r: number } {
+  if (fill.type === "radial") {
+    const cx = (fill.x ?? 0.5) * width;
+    const cy = (fill.y ?? 0.5) * height;
+    const farthest = Math.max(
+      Math.hypot(cx, cy),
+      Math.hypot(width - cx, cy),
+      Math.hypot(cx, height - cy),
+      Math.hypot(width - cx, height - cy),
+    );
+    return { type: "radial", cx, cy, r: farthest * (fill.radius ?? 1) };
+  }
+
+  const angle = ((fill.angle ?? 180) * Math.PI) / 180;
+  const dx = snap(Math.sin(angle));
+  const dy = snap(-Math.cos(angle));
+  const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  return {
+    type: "linear",
+    x1: width / 2 - dx * half,
+    y1: height / 2 - dy * half,
+    x2: width / 2 + dx * half,
+    y2: height / 2 + dy * half,
+  };
+}
+
+/** Escapes text for use in SVG content and attribute values */
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Renders an SVG element. Attribute values are escaped and numbers are
+ * rounded to three decimals; undefined attributes are left out.
+ */
+function renderElement(
+  name: string,
+  attributes: Record<string, string | number | undefined>,
+  content?: string,
+): string {
+  const rendered = Object.entries(attributes)
+    .filter(
+      (entry): entry is [string, string | number] => entry[1] !== undefined,
+    )
+    .map(([key, value]) => {
+      const text =
+        typeof value === "number"
+          ? String(Math.round(value * 1000) / 1000)
+          : escapeXml(value);
+      return ` ${key}="${text}"`;
+    })
+    .join("");
+
+  return content === undefined
+    ? `<${name}${rendered}/>`
+    : `<${name}${rendered}>${content}</${name}>`;
+}
+
+export class TextIconGenerator<T extends FaviconCanvas = HTMLCanvasElement> {
+  private readonly canvas: T;
 
-  constructor(canvas: HTMLCanvasElement) {
-    if (!(canvas instanceof HTMLCanvasElement)) {
-      throw new TypeError("Parameter must be an HTMLCanvasElement");
+  constructor(canvas: T) {
+    if (!isCanvas(canvas)) {
+      throw new TypeError(
+        "Parameter must be an HTMLCanvasElement or OffscreenCanvas",
+      );
     }
     this.canvas = canvas;
   }
@@ -16,12 +160,371 @@ export class TextIconGenerator {
    * @returns The generated canvas element
    * @throws {Error} If canvas context is unavailable or options are invalid
    */
-  public generate(options: TextIconGeneratorOptions = {}): HTMLCanvasElement {
-    const ctx = this.canvas.getContext("2d");
-    if (!ctx) throw new Error("Failed to get 2D context");
+  public generate(options: TextIconGeneratorOptions = {}): T {
+    const ctx = getContext2d(this.canvas);
+
+    const resolved = this.resolveOptions(options);
+    const {
+      width,
+      height,
+      text,
+      fontColor,
+      cornerRadius,
+      shape,
+      backgroundColor,
+      pixelRatio,
+      border,
+      textStroke,
+      textShadow,
+    } = resolved;
+
+    // Set canvas size for high-DPI displays
+    this.canvas.width = Math.round(width * pixelRatio);
+    this.canvas.height = Math.round(height * pixelRatio);
+    if ("style" in this.canvas) {
+      this.canvas.style.width = `${width}px`;
+      this.canvas.style.height = `${height}px`;
+    }
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+    ctx.fillStyle = this.resolveFill(ctx, backgroundColor, width, height);
+    const borderWidth =
+      border && border.width > 0
+        ? Math.min(border.width, Math.min(width, height) / 2)
+        : 0;
+
+    if (shape === "rounded") {
+      // Draw background with flexible corner radius
+      const radius = Math.min(cornerRadius, Math.min(width, height) / 2); // Clamp to avoid exceeding bounds
+      this.drawBackground(ctx, width, height, radius);
+      if (border && borderWidth > 0) {
+        this.drawBorder(
+          ctx,
+          width,
+          height,
+          radius,
+          borderWidth,
+          this.resolveFill(ctx, border.color, width, height),
+        );
+      }
+    } else {
+      // Clip everything, including the text, to the shape mask
+      ctx.save();
+      const strokeOutline = this.clipToShape(ctx, shape, width, height);
+      ctx.fillRect(0, 0, width, height);
+      if (border && borderWidth > 0) {
+        // Only the inner half of the doubled outline survives the clip
+        ctx.strokeStyle = this.resolveFill(ctx, border.color, width, height);
+        strokeOutline(borderWidth * 2);
+      }
+    }
+
+    // Draw text if provided
+    if (text) {
+      const layout = this.layoutText(ctx, text, resolved);
+      const offsets = this.measureOffsets(ctx, layout);
+      const stroked = textStroke !== undefined && textStroke.width > 0;
+      ctx.fillStyle = this.resolveFill(ctx, fontColor, width, height);
+      if (stroked) {
+        ctx.strokeStyle = this.resolveFill(
+          ctx,
+          textStroke.color,
+          width,
+          height,
+        );
+        ctx.lineWidth = textStroke.width;
+        ctx.lineJoin = "round";
+      }
+      if (textShadow) {
+        this.applyShadow(ctx, textShadow, pixelRatio);
+      }
+
+      this.drawText(
+        ctx,
+        layout,
+        width / 2 + offsets.horizontal,
+        height / 2 + offsets.vertical,
+        (run, x, y) => {
+          // Stroke first so the fill covers the inner half of the outline
+          if (stroked) ctx.strokeText(run, x, y);
+          ctx.fillText(run, x, y);
+        },
+      );
+    }
+
+    if (shape !== "rounded") {
+      ctx.restore();
+    }
+
+    return this.canvas;
+  }
+
+  /**
+   * Waits for the requested font to load before generating the icon, so the
+   * text is neither drawn nor measured with a fallback font. If the font
+   * cannot be loaded in time, the icon is still generated with the fallback
+   * and `onFontFallback` is called.
+   * @param options - Configuration options for the icon and font loading
+   * @returns Promise resolving to the generated canvas element
+   * @throws {Error} If canvas context is unavailable or options are invalid
+   * @throws {RangeError} If the font timeout is invalid
+   */
+  public async generateAsync(
+    options: TextIconGeneratorOptions & FontLoadOptions = {},
+  ): Promise<T> {
+    const { fontTimeout, onFontFallback, fonts, ...iconOptions } = options;
+    const { text, fontStyle, fontWeight, fontSize, fontFamily } =
+      this.resolveOptions(iconOptions);
 
+    if (text) {
+      await loadFont(
+        `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`,
+        text.replace(/\n/g, ""),
+        { fontTimeout, onFontFallback, fonts },
+      );
+    }
+
+    return this.generate(iconOptions);
+  }
+
+  /**
+   * Renders the same icon as an SVG document. The text is centered on its em
+   * box rather than on rendered pixels, and `darkColors` are embedded as a
+   * `prefers-color-scheme: dark` style block.
+   * @param options - Configuration options for the icon
+   * @returns SVG markup
+   * @throws {Error} If canvas context is unavailable for auto-fit measuring or options are invalid
+   */
+  public svg(options: TextIconGeneratorOptions = {}): string {
+    const resolved = this.resolveOptions(options);
+    const {
+      width,
+      height,
+      text,
+      cornerRadius,
+      shape,
+      border,
+      textStroke,
+      textShadow,
+    } = resolved;
+    if (typeof shape !== "string") {
+      throw new TypeError(
+        "Path2D shapes cannot be rendered as SVG; use a named shape",
+      );
+    }
+
+    const darkColors = resolved.darkColors ?? {};
+    const radius = Math.min(cornerRadius, Math.min(width, height) / 2);
+    const size = Math.min(width, height);
+    const shapePath =
+      shape === "rounded"
+        ? undefined
+        : toPathData(
+            getShapeCommands(shape),
+            (width - size) / 2,
+            (height - size) / 2,
+            size,
+          );
+    const clipPath = shapePath ? "url(#shape)" : undefined;
+    const defs: string[] = shapePath
+      ? [
+          renderElement(
+            "clipPath",
+            { id: "shape" },
+            renderElement("path", { d: shapePath }),
+          ),
+        ]
+      : [];
+    const darkRules: string[] = [];
+
+    // Registers gradients as defs and returns the paint referencing them
+    const paint = (fill: TextIconFill, id: string): string => {
+      if (typeof fill === "string") return fill;
+      defs.push(this.renderGradient(fill, id, width, height));
+      return `url(#${id})`;
+    };
+    const addDarkRule = (
+      selector: string,
+      property: string,
+      fill: TextIconFill | undefined,
+      id: string,
+    ): void => {
+      if (fill !== undefined) {
+        darkRules.push(`${selector} { ${property}: ${paint(fill, id)}; }`);
+      }
+    };
+
+    const backgroundFill = paint(resolved.backgroundColor, "background-fill");
+    const body = [
+      shapePath
+        ? renderElement("path", {
+            class: "background",
+            d: shapePath,
+            fill: backgroundFill,
+          })
+        : renderElement("rect", {
+            class: "background",
+            width,
+            height,
+            rx: radius || undefined,
+            ry: radius || undefined,
+            fill: backgroundFill,
+          }),
+    ];
+    addDarkRule(
+      ".background",
+      "fill",
+      darkColors.backgroundColor,
+      "dark-background-fill",
+    );
+
+    if (border && border.width > 0) {
+      const borderWidth = Math.min(border.width, Math.min(width, height) / 2);
+      const inset = borderWidth / 2;
+      const borderRadius = Math.max(0, radius - inset);
+      const borderStroke = paint(border.color, "border-fill");
+      body.push(
+        shapePath
+          ? renderElement("path", {
+              class: "border",
+              d: shapePath,
+              fill: "none",
+              stroke: borderStroke,
+              "stroke-width": borderWidth * 2,
+              "clip-path": clipPath,
+            })
+          : renderElement("rect", {
+              class: "border",
+              x: inset,
+              y: inset,
+              width: width - borderWidth,
+              height: height - borderWidth,
+              rx: borderRadius || undefined,
+              ry: borderRadius || undefined,
+              fill: "none",
+              stroke: borderStroke,
+              "stroke-width": borderWidth,
+            }),
+      );
+      addDarkRule(
+        ".border",
+        "stroke",
+        darkColors.borderColor,
+        "dark-border-fill",
+      );
+    }
+
+    if (text) {
+      const layout = this.layoutText(getContext2d(this.canvas), text, resolved);
+      const stroked = textStroke !== undefined && textStroke.width > 0;
+
+      if (textShadow) {
+        // Canvas shadow blur is twice the Gaussian standard deviation
+        defs.push(
+          renderElement(
+            "filter",
+            {
+              id: "text-shadow",
+              x: "-50%",
+              y: "-50%",
+              width: "200%",
+              height: "200%",
+            },
+            renderElement("feDropShadow", {
+              dx: textShadow.offsetX ?? 0,
+              dy: textShadow.offsetY ?? 0,
+              stdDeviation: (textShadow.blur ?? 0) / 2,
+              "flood-color": textShadow.color,
+            }),
+          ),
+        );
+      }
+
+      const lines = layout.lines.map((line, index) =>
+        renderElement(
+          "tspan",
+          {
+            x: width / 2,
+            y:
+              height / 2 +
+              (index - (layout.lines.length - 1) / 2) * layout.lineHeight,
+          },
+          escapeXml(line),
+        ),
+      );
+      body.push(
+        renderElement(
+          "text",
+          {
+            class: "text",
+            "font-family": resolved.fontFamily,
+            "font-size": layout.fontSize,
+            "font-weight": resolved.fontWeight,
+            "font-style": resolved.fontStyle,
+            "letter-spacing": layout.letterSpacing || undefined,
+            "text-anchor": "middle",
+            "dominant-baseline": "central",
+            fill: paint(resolved.fontColor, "text-fill"),
+            // Paint the stroke first so the fill covers its inner half, as on canvas
+            stroke: stroked
+              ? paint(textStroke.color, "text-stroke-fill")
+              : undefined,
+            "stroke-width": stroked ? textStroke.width : undefined,
+            "stroke-linejoin": stroked ? "round" : undefined,
+            "paint-order": stroked ? "stroke" : undefined,
+            filter: textShadow ? "url(#text-shadow)" : undefined,
+            "clip-path": clipPath,
+          },
+          lines.join(""),
+        ),
+      );
+      addDarkRule(".text", "fill", darkColors.fontColor, "dark-text-fill");
+      if (stroked) {
+        addDarkRule(
+          ".text",
+          "stroke",
+          darkColors.textStrokeColor,
+          "dark-text-stroke-fill",
+        );
+      }
+    }
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      ...(defs.length > 0 ? [`<defs>${defs.join("")}</defs>`] : []),
+      ...(darkRules.length > 0
+        ? [
+            `<style>${escapeXml(
+              `@media (prefers-color-scheme: dark) { ${darkRules.join(" ")} }`,
+            )}</style>`,
+          ]
+        : []),
+      ...body,
+      "</svg>",
+    ].join("\n");
+  }
+
+  /**
+   * Merges options with defaults and validates them.
+   * @param options - Configuration options for the icon
+   * @returns The options with every default applied
+   * @throws {Error} If options are invalid
+   */
+  private resolveOptions(
+    options: TextIconGeneratorOptions,
+  ): ResolvedTextIconOptions {
     // Default options
-    const defaults: Required<TextIconGeneratorOptions> = {
+    const defaults: Required<
+      Omit<
+        TextIconGeneratorOptions,
+        | "padding"
+        | "maxFontSize"
+        | "border"
+        | "textStroke"
+        | "textShadow"
+        | "darkColors"
+      >
+    > = {
       width: 128,
       height: 128,
       text: "F",
@@ -31,11 +534,29 @@ export class TextIconGenerator {
       fontWeight: "400",
       fontStyle: "normal",
       cornerRadius: 0, // 0 = square by default
+      shape: "rounded",
       backgroundColor: "black",
       pixelRatio: this.getDefaultPixelRatio(),
+      autoFit: false,
+      minFontSize: 8,
+      lineHeight: 1.2,
+      letterSpacing: 0,
     };
 
     // Merge options with defaults
+    const resolved = {
+      ...defaults,
+      ...options,
+      padding:
+        options.padding ??
+        Math.round(
+          Math.min(
+            options.width ?? defaults.width,
+            options.height ?? defaults.height,
+          ) * 0.1,
+        ),
+      maxFontSize: options.maxFontSize ?? options.fontSize ?? defaults.fontSize,
+    };
     const {
       width,
       height,
@@ -46,12 +567,20 @@ export class TextIconGenerator {
       fontWeight,
       fontStyle,
       cornerRadius,
+      shape,
       backgroundColor,
       pixelRatio,
-    } = {
-      ...defaults,
-      ...options,
-    };
+      autoFit,
+      minFontSize,
+      lineHeight,
+      letterSpacing,
+      border,
+      textStroke,
+      textShadow,
+      darkColors,
+      padding,
+      maxFontSize,
+    } = resolved;
 
     // Input validation
     if (typeof width !== "number" || width <= 0)
@@ -62,6 +591,14 @@ export class TextIconGenerator {
       throw new Error("Font size must be a positive number");
     if (typeof cornerRadius !== "number" || cornerRadius < 0)
       throw new Error("Corner radius must be a non-negative number");
+    if (
+      !TEXT_ICON_SHAPES.includes(shape as TextIconShapeName) &&
+      !(typeof Path2D !== "undefined" && shape instanceof Path2D)
+    ) {
+      throw new Error(
+        `Shape must be one of ${TEXT_ICON_SHAPES.join(", ")} or a Path2D`,
+      );
+    }
     if (
       typeof pixelRatio !== "number" ||
       !Number.isFinite(pixelRatio) ||
@@ -69,95 +606,455 @@ export class TextIconGenerator {
     ) {
       throw new Error("Pixel ratio must be a positive number");
     }
-
-    // Set canvas size for high-DPI displays
-    this.canvas.width = Math.round(width * pixelRatio);
-    this.canvas.height = Math.round(height * pixelRatio);
-    this.canvas.style.width = `${width}px`;
-    this.canvas.style.height = `${height}px`;
-    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
-
-    // Draw background with flexible corner radius
-    this.drawBackground(ctx, width, height, cornerRadius, backgroundColor);
-
-    // Draw text if provided
-    if (text) {
-      const font = `${fontStyle} ${fontWeight} ${fontSize}px ${fontFamily}`;
-      ctx.fillStyle = fontColor;
-      ctx.font = font;
-      ctx.textBaseline = "alphabetic";
-      ctx.textAlign = "center";
-
-      const offsets = this.measureOffsets(ctx, text, fontSize);
-      ctx.fillText(
-        text,
-        width / 2 + offsets.horizontal,
-        height / 2 + offsets.vertical,
-      );
+    if (typeof lineHeight !== "number" || lineHeight <= 0)
+      throw new Error("Line height must be a positive number");
+    if (typeof letterSpacing !== "number" || !Number.isFinite(letterSpacing))
+      throw new Error("Letter spacing must be a finite number");
+    assertFill(backgroundColor, "Background color");
+    assertFill(fontColor, "Font color");
+    if (darkColors) {
+      for (const [name, fill] of Object.entries(darkColors)) {
+        if (fill !== undefined) assertFill(fill, `Dark ${name}`);
+      }
+    }
+    if (border) {
+      if (!(border.width >= 0) || !Number.isFinite(border.width))
+        throw new Error("Border width must be a non-negative number");
+      assertFill(border.color, "Border color");
+    }
+    if (textStroke) {
+      if (!(textStroke.width >= 0) || !Number.isFinite(textStroke.width))
+        throw new Error("Text stroke width must be a non-negative number");
+      assertFill(textStroke.color, "Text stroke color");
+    }
+    if (textShadow) {
+      const { blur = 0, offsetX = 0, offsetY = 0 } = textShadow;
+      if (typeof textShadow.color !== "string")
+        throw new Error("Text shadow color must be a CSS color");
+      if (!(blur >= 0) || !Number.isFinite(blur))
+        throw new Error("Text shadow blur must be a non-negative number");
+      if (!Number.isFinite(offsetX) || !Number.isFinite(offsetY))
+        throw new Error("Text shadow offsets must be finite numbers");
+    }
+    // Font size bounds and padding only shape the auto-fit box
+    if (autoFit) {
+      if (typeof minFontSize !== "number" || minFontSize <= 0)
+        throw new Error("Minimum font size must be a positive number");
+      if (typeof maxFontSize !== "number" || maxFontSize < minFontSize)
+        throw new Error(
+          "Maximum font size must be greater than or equal to the minimum font size",
+        );
+      if (
+        typeof padding !== "number" ||
+        padding < 0 ||
+        padding * 2 >= Math.min(width, height)
+      ) {
+        throw new Error(
+          "Padding must be non-negative and smaller than half the canvas size",
+        );
+      }
     }
 
-    return this.canvas;
+    return resolved;
   }
 
   /**
    * Draws the background with a specified corner radius.
-   * @param ctx - Canvas 2D rendering context
+   * @param ctx - Canvas 2D rendering context with the fill style applied
    * @param width - Canvas width in logical pixels
    * @param height - Canvas height in logical pixels
-   * @param cornerRadius - Corner radius in pixels (clamped to fit within bounds)
-   * @param backgroundColor - Background fill color
+   * @param radius - Corner radius in pixels, already clamped to fit within bounds
    */
   private drawBackground(
-    ctx: CanvasRenderingContext2D,
+    ctx: Canvas2DContext,
     width: number,
     height: number,
-    cornerRadius: number,
-    backgroundColor: string,
+    radius: number,
   ): void {
-    ctx.fillStyle = backgroundColor;
-    const maxRadius = Math.min(width, height) / 2;
-    const clampedRadius = Math.min(cornerRadius, maxRadius); // Clamp to avoid exceeding bounds
-
-    if (clampedRadius === 0) {
+    if (radius === 0) {
       // Square (no rounding)
       ctx.fillRect(0, 0, width, height);
     } else {
       // Rounded shape (circle if radius is max)
-      ctx.beginPath();
-      ctx.moveTo(clampedRadius, 0);
-      ctx.arcTo(width, 0, width, height, clampedRadius);
-      ctx.arcTo(width, height, 0, height, clampedRadius);
-      ctx.arcTo(0, height, 0, 0, clampedRadius);
-      ctx.arcTo(0, 0, width, 0, clampedRadius);
-      ctx.closePath();
+      this.traceRoundedRect(ctx, 0, 0, width, height, radius);
       ctx.fill();
     }
   }
 
+  /**
+   * Strokes a border inside the background shape, following its corners.
+   * @param ctx - Canvas 2D rendering context
+   * @param width - Canvas width in logical pixels
+   * @param height - Canvas height in logical pixels
+   * @param radius - Background corner radius in pixels
+   * @param borderWidth - Border width in pixels, at most half the smaller side
+   * @param style - Border color or gradient
+   */
+  private drawBorder(
+    ctx: Canvas2DContext,
+    width: number,
+    height: number,
+    radius: number,
+    borderWidth: number,
+    style: string | CanvasGradient,
+  ): void {
+    // Center the stroke on a path inset by half its width so it stays inside
+    const inset = borderWidth / 2;
+    ctx.strokeStyle = style;
+    ctx.lineWidth = borderWidth;
+    this.traceRoundedRect(
+      ctx,
+      inset,
+      inset,
+      width - borderWidth,
+      height - borderWidth,
+      Math.max(0, radius - inset),
+    );
+    ctx.stroke();
+  }
+
+  /**
+   * Clips the context to a shape scaled to the centered square of the
+   * smaller side.
+   * @param ctx - Canvas 2D rendering context
+   * @param shape - Named shape or a Path2D in a 1x1 box
+   * @param width - Canvas width in logical pixels
+   * @param height - Canvas height in logical pixels
+   * @returns A function stroking the shape outline with the given line width
+   */
+  private clipToShape(
+    ctx: Canvas2DContext,
+    shape: Exclude<TextIconShape, "rounded">,
+    width: number,
+    height: number,
+  ): (lineWidth: number) => void {
+    const size = Math.min(width, height);
+    const x = (width - size) / 2;
+    const y = (height - size) / 2;
+
+    if (typeof shape === "string") {
+      const commands = getShapeCommands(shape);
+      traceShape(ctx, commands, x, y, size);
+      ctx.clip();
+      return (lineWidth) => {
+        traceShape(ctx, commands, x, y, size);
+        ctx.lineWidth = lineWidth;
+        ctx.stroke();
+      };
+    }
+
+    const path = new Path2D();
+    path.addPath(shape, new DOMMatrix([size, 0, 0, size, x, y]));
+    ctx.clip(path);
+    return (lineWidth) => {
+      ctx.lineWidth = lineWidth;
+      ctx.stroke(path);
+    };
+  }
+
+  /**
+   * Starts a new path with a rounded rectangle.
+   * @param ctx - Canvas 2D rendering context
+   * @param x - Left edge in logical pixels
+   * @param y - Top edge in logical pixels
+   * @param width - Rectangle width in logical pixels
+   * @param height - Rectangle height in logical pixels
+   * @param radius - Corner radius in pixels
+   */
+  private traceRoundedRect(
+    ctx: Canvas2DContext,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    radius: number,
+  ): void {
+    ctx.beginPath();
+    ctx.moveTo(x + radius, y);
+    ctx.arcTo(x + width, y, x + width, y + height, radius);
+    ctx.arcTo(x + width, y + height, x, y + height, radius);
+    ctx.arcTo(x, y + height, x, y, radius);
+    ctx.arcTo(x, y, x + width, y, radius);
+    ctx.closePath();
+  }
+
+  /**
+   * Turns a color or gradient option into a fill or stroke style spanning the icon.
+   * @param ctx - Canvas 2D rendering context
+   * @param fill - Flat color or gradient description
+   * @param width - Canvas width in logical pixels
+   * @param height - Canvas height in logical pixels
+   * @returns The CSS color or canvas gradient
+   */
+  private resolveFill(
+    ctx: Canvas2DContext,
+    fill: TextIconFill,
+    width: number,
+    height: number,
+  ): string | CanvasGradient {
+    if (typeof fill === "string") return fill;
+
+    const geometry = gradientGeometry(fill, width, height);
+    const gradient =
+      geometry.type === "radial"
+        ? ctx.createRadialGradient(
+            geometry.cx,
+            geometry.cy,
+            0,
+            geometry.cx,
+            geometry.cy,
+            geometry.r,
+          )
+        : ctx.createLinearGradient(
+            geometry.x1,
+            geometry.y1,
+            geometry.x2,
+            geometry.y2,
+          );
+
+    for (const stop of fill.stops) {
+      gradient.addColorStop(stop.offset, stop.color);
+    }
+    return gradient;
+  }
+
+  /**
+   * Renders a gradient as an SVG gradient element in icon coordinates.
+   * @param fill - Gradient description
+   * @param id - Element id to reference the gradient by
+   * @param width - Icon width in pixels
+   * @param height - Icon height in pixels
+   * @returns The gradient element markup
+   */
+  private renderGradient(
+    fill: LinearGradientFill | RadialGradientFill,
+    id: string,
+    width: number,
+    height: number,
+  ): string {
+    const geometry = gradientGeometry(fill, width, height);
+    const stops = fill.stops
+      .map((stop) =>
+        renderElement("stop", {
+          offset: stop.offset,
+          "stop-color": stop.color,
+        }),
+      )
+      .join("");
+
+    return geometry.type === "radial"
+      ? renderElement(
+          "radialGradient",
+          {
+            id,
+            gradientUnits: "userSpaceOnUse",
+            cx: geometry.cx,
+            cy: geometry.cy,
+            r: geometry.r,
+          },
+          stops,
+        )
+      : renderElement(
+          "linearGradient",
+          {
+            id,
+            gradientUnits: "userSpaceOnUse",
+            x1: geometry.x1,
+            y1: geometry.y1,
+            x2: geometry.x2,
+            y2: geometry.y2,
+          },
+          stops,
+        );
+  }
+
+  /**
+   * Sets the text shadow. Shadow sizes ignore the canvas transform, so they
+   * are scaled to the backing resolution here.
+   * @param ctx - Canvas 2D rendering context
+   * @param shadow - Shadow options in logical pixels
+   * @param pixelRatio - Ratio between backing and logical pixels
+   */
+  private applyShadow(
+    ctx: Canvas2DContext,
+    shadow: TextIconShadow,
+    pixelRatio: number,
+  ): void {
+    ctx.shadowColor = shadow.color;
+    ctx.shadowBlur = (shadow.blur ?? 0) * pixelRatio;
+    ctx.shadowOffsetX = (shadow.offsetX ?? 0) * pixelRatio;
+    ctx.shadowOffsetY = (shadow.offsetY ?? 0) * pixelRatio;
+  }
+
+  /**
+   * Splits the text into lines and picks the font size, shrinking it to the
+   * padding box when auto-fit is enabled.
+   * @param ctx - Canvas 2D rendering context used for measuring
+   * @param text - Text to lay out
+   * @param options - Resolved icon options
+   * @returns The text layout
+   */
+  private layoutText(
+    ctx: Canvas2DContext,
+    text: string,
+    options: ResolvedTextIconOptions,
+  ): TextLayout {
+    const { width, height, padding } = options;
+    const createLayout = (size: number): TextLayout => ({
+      lines: text.split("\n"),
+      font: `${options.fontStyle} ${options.fontWeight} ${size}px ${options.fontFamily}`,
+      fontSize: size,
+      lineHeight: size * options.lineHeight,
+      letterSpacing: options.letterSpacing,
+    });
+
+    return options.autoFit
+      ? this.fitLayout(
+          ctx,
+          createLayout,
+          width - padding * 2,
+          height - padding * 2,
+          options.minFontSize,
+          options.maxFontSize,
+        )
+      : createLayout(options.fontSize);
+  }
+
+  /**
+   * Picks the largest font size between the limits at which every line fits
+   * inside the box.
+   * @param ctx - Canvas 2D rendering context used for measuring
+   * @param createLayout - Builds the text layout for a font size
+   * @param boxWidth - Available width in logical pixels
+   * @param boxHeight - Available height in logical pixels
+   * @param minFontSize - Smallest allowed font size; used even if the text still overflows
+   * @param maxFontSize - Largest allowed font size
+   * @returns The fitted layout
+   */
+  private fitLayout(
+    ctx: Canvas2DContext,
+    createLayout: (fontSize: number) => TextLayout,
+    boxWidth: number,
+    boxHeight: number,
+    minFontSize: number,
+    maxFontSize: number,
+  ): TextLayout {
+    let layout = createLayout(maxFontSize);
+
+    while (layout.fontSize > minFontSize) {
+      ctx.font = layout.font;
+      const blockWidth = Math.max(
+        ...layout.lines.map((line) => this.measureLine(ctx, line, layout)),
+      );
+      const blockHeight =
+        layout.fontSize + (layout.lines.length - 1) * layout.lineHeight;
+      const ratio = Math.min(boxWidth / blockWidth, boxHeight / blockHeight);
+      if (ratio >= 1) break;
+
+      // Text width is roughly proportional to the font size, so jump close to
+      // the fitting size and step down from there
+      layout = createLayout(
+        Math.max(
+          minFontSize,
+          Math.min(layout.fontSize - 1, Math.floor(layout.fontSize * ratio)),
+        ),
+      );
+    }
+
+    return layout;
+  }
+
+  /**
+   * Draws every line centered on the given point, using the alphabetic
+   * baseline. Letter spacing is applied per grapheme so emoji sequences stay intact.
+   * @param ctx - Canvas 2D rendering context with the fill style applied
+   * @param layout - Lines, font and spacing to draw
+   * @param x - Horizontal center in logical pixels
+   * @param y - Baseline of the middle line in logical pixels
+   * @param paint - Draws one run of text (default: fillText)
+   */
+  private drawText(
+    ctx: Canvas2DContext,
+    layout: TextLayout,
+    x: number,
+    y: number,
+    paint: (run: string, x: number, y: number) => void = (run, runX, runY) =>
+      ctx.fillText(run, runX, runY),
+  ): void {
+    ctx.font = layout.font;
+    ctx.textBaseline = "alphabetic";
+
+    layout.lines.forEach((line, index) => {
+      const lineY =
+        y + (index - (layout.lines.length - 1) / 2) * layout.lineHeight;
+
+      if (layout.letterSpacing === 0) {
+        ctx.textAlign = "center";
+        paint(line, x, lineY);
+        return;
+      }
+
+      ctx.textAlign = "left";
+      let cursor = x - this.measureLine(ctx, line, layout) / 2;
+      for (const grapheme of splitGraphemes(line)) {
+        paint(grapheme, cursor, lineY);
+        cursor += ctx.measureText(grapheme).width + layout.letterSpacing;
+      }
+    });
+  }
+
+  /**
+   * Measures the advance width of a line including letter spacing.
+   * @param ctx - Canvas 2D rendering context with the layout font applied
+   * @param line - Line of text
+   * @param layout - Layout providing the letter spacing
+   * @returns Width in logical pixels
+   */
+  private measureLine(
+    ctx: Canvas2DContext,
+    line: string,
+    layout: TextLayout,
+  ): number {
+    if (layout.letterSpacing === 0) {
+      return ctx.measureText(line).width;
+    }
+
+    const graphemes = splitGraphemes(line);
+    return (
+      graphemes.reduce(
+        (width, grapheme) => width + ctx.measureText(grapheme).width,
+        0,
+      ) +
+      layout.letterSpacing * Math.max(0, graphemes.length - 1)
+    );
+  }
+
   /**
    * Measures text offsets for precise centering by analyzing pixel data.
-   * @param ctx - Canvas 2D rendering context with font settings applied
-   * @param text - Text to measure
-   * @param fontSize - Font size in pixels
+   * Pixels are detected by alpha, so colored glyphs such as emoji are centered too.
+   * @param ctx - Canvas 2D rendering context used for measuring
+   * @param layout - Lines, font and spacing to measure
    * @returns Vertical and horizontal offsets for centering
    * @throws {Error} If temporary canvas context is unavailable
    */
   private measureOffsets(
-    ctx: CanvasRenderingContext2D,
-    text: string,
-    fontSize: number,
+    ctx: Canvas2DContext,
+    layout: TextLayout,
   ): { vertical: number; horizontal: number } {
-    const tempCanvas = document.createElement("canvas");
-    const tempCtx = tempCanvas.getContext("2d");
-    if (!tempCtx) throw new Error("Failed to get 2D context");
-
-    tempCanvas.width = 2 * ctx.measureText(text).width || 1; // Avoid zero width
-    tempCanvas.height = 2 * fontSize;
-    tempCtx.font = ctx.font;
-    tempCtx.textBaseline = "alphabetic";
-    tempCtx.textAlign = "center";
+    ctx.font = layout.font;
+    const blockWidth = Math.max(
+      ...layout.lines.map((line) => this.measureLine(ctx, line, layout)),
+    );
+    const blockHeight =
+      layout.fontSize + (layout.lines.length - 1) * layout.lineHeight;
+    const tempCanvas = createCanvas(
+      Math.ceil(2 * blockWidth) || 1, // Avoid zero width
+      Math.ceil(2 * blockHeight),
+    );
+    const tempCtx = getContext2d(tempCanvas);
+
     tempCtx.fillStyle = "white";
-    tempCtx.fillText(text, tempCanvas.width / 2, tempCanvas.height / 2);
+    this.drawText(tempCtx, layout, tempCanvas.width / 2, tempCanvas.height / 2);
 
     const data = tempCtx.getImageData(
       0,
@@ -172,7 +1069,7 @@ export class TextIconGenerator {
       right: number | undefined;
     for (let y = 0; y < tempCanvas.height; y++) {
       for (let x = 0; x < tempCanvas.width; x++) {
-        if (data[4 * (y * tempCanvas.width + x)] === 255) {
+        if (data[4 * (y * tempCanvas.width + x) + 3] >= 128) {
           top = top === undefined ? y : top;
           bottom = y;
           break;
@@ -181,7 +1078,7 @@ export class TextIconGenerator {
     }
     for (let x = 0; x < tempCanvas.width; x++) {
       for (let y = 0; y < tempCanvas.height; y++) {
-        if (data[4 * (y * tempCanvas.width + x)] === 255) {
+        if (data[4 * (y * tempCanvas.width + x) + 3] >= 128) {
           left = left === undefined ? x : left;
           right = x;
           break;
@@ -209,14 +1106,40 @@ export class TextIconGenerator {
   /**
    * Static method to create and generate an icon on a new canvas.
    * @param options - Configuration options for the icon
-   * @returns The generated canvas element
+   * @returns The generated canvas (an OffscreenCanvas inside Web Workers)
    */
-  static generate(options: TextIconGeneratorOptions = {}): HTMLCanvasElement {
-    const canvas = document.createElement("canvas");
-    const generator = new TextIconGenerator(canvas);
+  static generate(options: TextIconGeneratorOptions = {}): FaviconCanvas {
+    const canvas = createCanvas(1, 1);
+    const generator = new TextIconGenerator<FaviconCanvas>(canvas);
     return generator.generate(options);
   }
 
+  /**
+   * Static method to create and generate an icon on a new canvas once the
+   * requested font has loaded.
+   * @param options - Configuration options for the icon and font loading
+   * @returns Promise resolving to the generated canvas (an OffscreenCanvas
+   * inside Web Workers)
+   */
+  static generateAsync(
+    options: TextIconGeneratorOptions & FontLoadOptions = {},
+  ): Promise<FaviconCanvas> {
+    const canvas = createCanvas(1, 1);
+    const generator = new TextIconGenerator<FaviconCanvas>(canvas);
+    return generator.generateAsync(options);
+  }
+
+  /**
+   * Static method to render an icon as SVG markup.
+   * @param options - Configuration options for the icon
+   * @returns SVG markup
+   */
+  static svg(options: TextIconGeneratorOptions = {}): string {
+    return new TextIconGenerator<FaviconCanvas>(createCanvas(1, 1)).svg(
+      options,
+    );
+  }
+
   private getDefaultPixelRatio(): number {
     if (
       typeof globalThis.devicePixelRatio === "number" &&
@@ -0,0 +1,159 @@
+import { FaviconCanvas, FaviconSource, IcnsOsType } from "../types";
+import {
+  bytesToDataUrl,
+  canvasToBytes,
+  canvasToDataUrl,
+  dataUrlToBytes,
+} from "../utils/binary";
+import { isCanvasSource } from "../utils/canvas";
+import Resize from "../utils/resize";
+
+/** Pixel size stored in each PNG-backed ICNS OSType */
+export const ICNS_OS_TYPE_SIZES: Record<IcnsOsType, number> = {
+  ic07: 128,
+  ic08: 256,
+  ic09: 512,
+  ic10: 1024,
+  ic11: 32,
+  ic12: 64,
+  ic13: 256,
+  ic14: 512,
+};
+
+/**
+ * Tells whether a string names one of the PNG-backed ICNS OSTypes. Own keys
+ * only, so inherited names such as "toString" do not match.
+ */
+export function isIcnsOsType(value: string): value is IcnsOsType {
+  return Object.prototype.hasOwnProperty.call(ICNS_OS_TYPE_SIZES, value);
+}
+
+const DEFAULT_OS_TYPES: IcnsOsType[] = [
+  "ic11",
+  "ic12",
+  "ic07",
+  "ic13",
+  "ic08",
+  "ic14",
+  "ic09",
+  "ic10",
+];
+
+/**
+ * Generates Apple ICNS files from a canvas element using PNG-backed entries.
+ */
+class Icns {
+  private readonly canvas: FaviconSource;
+
+  /**
+   * Creates an instance of Icns.
+   * @param canvas - The source canvas element to generate ICNS from.
+   * @throws {TypeError} If the parameter is not an HTMLCanvasElement, OffscreenCanvas or ImageBitmap.
+   */
+  constructor(canvas: FaviconSource) {
+    if (!isCanvasSource(canvas)) {
+      throw new TypeError(
+        "Parameter must be an HTMLCanvasElement, OffscreenCanvas or ImageBitmap",
+      );
+    }
+    this.canvas = canvas;
+  }
+
+  /**
+   * Generates an ICNS file as a data URL with the specified OSTypes.
+   * @param osTypes - OSTypes to include (default: ic07-ic14).
+   * @returns A data URL representing the ICNS file.
+   * @throws {RangeError} If the list is empty or contains an unsupported OSType.
+   */
+  public generate(osTypes: IcnsOsType[] = DEFAULT_OS_TYPES): string {
+    const entries = this.prepareEntries(osTypes).map(({ osType, canvas }) => ({
+      osType,
+      data: dataUrlToBytes(canvasToDataUrl(canvas)),
+    }));
+
+    return bytesToDataUrl(Icns.encode(entries), "image/icns");
+  }
+
+  /**
+   * Generates an ICNS file as raw bytes with the specified OSTypes.
+   * @param osTypes - OSTypes to include (default: ic07-ic14).
+   * @returns The ICNS file contents.
+   * @throws {RangeError} If the list is empty or contains an unsupported OSType.
+   */
+  public async generateBytes(
+    osTypes: IcnsOsType[] = DEFAULT_OS_TYPES,
+  ): Promise<Uint8Array> {
+    const entries = [];
+    for (const { osType, canvas } of this.prepareEntries(osTypes)) {
+      entries.push({ osType, data: await canvasToBytes(canvas) });
+    }
+
+    return Icns.encode(entries);
+  }
+
+  /**
+   * Generates an ICNS file as a Blob with the specified OSTypes.
+   * @param osTypes - OSTypes to include (default: ic07-ic14).
+   * @returns A Blob of type image/icns.
+   */
+  public async generateBlob(
+    osTypes: IcnsOsType[] = DEFAULT_OS_TYPES,
+  ): Promise<Blob> {
+    const bytes = await this.generateBytes(osTypes);
+    return new Blob([bytes as BlobPart], { type: "image/icns" });
+  }
+
+  /**
+   * Validates the OSTypes and resizes the canvas for each of them.
+   */
+  private prepareEntries(
+    osTypes: IcnsOsType[],
+  ): Array<{ osType: IcnsOsType; canvas: FaviconCanvas }> {
+    if (osTypes.length === 0) {
+      throw new RangeError("At least one OSType must be provided");
+    }
+
+    if (!osTypes.every(isIcnsOsType)) {
+      throw new RangeError("OSTypes must be one of ic07-ic14");
+    }
+
+    return osTypes.map((osType) => {
+      const size = ICNS_OS_TYPE_SIZES[osType];
+      return { osType, canvas: new Resize(this.canvas).resize(size, size) };
+    });
+  }
+
+  /**
+   * Packs PNG payloads into an ICNS container.
+   * @param entries - OSType and PNG bytes for each icon element.
+   * @returns The ICNS file contents.
+   */
+  static encode(
+    entries: Array<{ osType: IcnsOsType; data: Uint8Array }>,
+  ): Uint8Array {
+    const totalSize = entries.reduce(
+      (sum, entry) => sum + 8 + entry.data.length,
+      8,
+    );
+    const bytes = new Uint8Array(totalSize);
+    const view = new DataView(bytes.buffer);
+    const writeType = (offset: number, type: string) => {
+      for (let i = 0; i < 4; i++) bytes[offset + i] = type.charCodeAt(i);
+    };
+
+    writeType(0, "icns");
+    view.setUint32(4, totalSize); // File length (big-endian)
+
+    let offset = 8;
+    for (const entry of entries) {
+      writeType(offset, entry.osType);
+      view.setUint32(offset + 4, 8 + entry.data.length); // Element length
+      bytes.set(entry.data, offset + 8);
+      offset += 8 + entry.data.length;
+    }
+
+    return bytes;
+  }
+}
+
+export default Icns;
@@ -1,19 +1,53 @@
+import Badge from "../composer/badge";
+import {
+  FaviconCanvas,
+  FaviconSource,
+  IcoBitDepth,
+  IcoGeneratorOptions,
+} from "../types";
+import {
+  bytesToDataUrl,
+  canvasToBytes,
+  canvasToDataUrl,
+  concatBytes,
+  dataUrlToBytes,
+} from "../utils/binary";
+import { getContext2d, isCanvasSource, selectSource } from "../utils/canvas";
+import Quantize from "../utils/quantize";
 import Resize from "../utils/resize";
 
+const SUPPORTED_BIT_DEPTHS: IcoBitDepth[] = [4, 8, 32];
+
+interface PreparedEntry {
+  size: number;
+  bitDepth: IcoBitDepth;
+  canvas: FaviconCanvas;
+  usesPng: boolean;
+  png?: Uint8Array;
+}
+
+interface EncodedEntry {
+  data: Uint8Array;
+  bitDepth: IcoBitDepth;
+  colorCount: number;
+}
+
 /**
  * Generates ICO files from a canvas element, supporting multiple sizes.
  */
 class Ico {
-  private readonly canvas: HTMLCanvasElement;
+  private readonly canvas: FaviconSource;
 
   /**
    * Creates an instance of Ico.
    * @param canvas - The source canvas element to generate ICO from.
-   * @throws {TypeError} If the parameter is not an HTMLCanvasElement.
+   * @throws {TypeError} If the parameter is not an HTMLCanvasElement, OffscreenCanvas or ImageBitmap.
    */
-  constructor(canvas: HTMLCanvasElement) {
-    if (!(canvas instanceof HTMLCanvasElement)) {
-      throw new TypeError("Parameter must be an HTMLCanvasElement");
+  constructor(canvas: FaviconSource) {
+    if (!isCanvasSource(canvas)) {
+      throw new TypeError(
+        "Parameter must be an HTMLCanvasElement, OffscreenCanvas or ImageBitmap",
+      );
     }
     this.canvas = canvas;
   }
@@ -21,11 +55,71 @@ class Ico {
   /**
    * Generates an ICO file as a data URL with specified sizes.
    * @param sizes - Array of sizes (in pixels) for the ICO images (default: [16, 32, 48]).
+   * @param options - Per-size bit depth, source, dithering, resampling and badge options.
    * @returns A data URL representing the ICO file.
-   * @throws {RangeError} If any size is not a positive integer between 1 and 256.
+   * @throws {RangeError} If any size is not a positive integer between 1 and 256,
+   * or a bit depth is not 4, 8 or 32.
+   * @throws {Error} If the canvas context is unavailable.
+   */
+  public generate(
+    sizes: number[] = [16, 32, 48],
+    options: IcoGeneratorOptions = {},
+  ): string {
+    const entries = this.prepareEntries(sizes, options);
+    for (const entry of entries) {
+      if (entry.usesPng) {
+        entry.png = dataUrlToBytes(canvasToDataUrl(entry.canvas));
+      }
+    }
+
+    return bytesToDataUrl(this.encode(entries, options), "image/x-icon");
+  }
+
+  /**
+   * Generates an ICO file as raw bytes with specified sizes.
+   * @param sizes - Array of sizes (in pixels) for the ICO images (default: [16, 32, 48]).
+   * @param options - Per-size bit depth, source, dithering, resampling and badge options.
+   * @returns The ICO file contents.
+   * @throws {RangeError} If any size is not a positive integer between 1 and 256,
+   * or a bit depth is not 4, 8 or 32.
    * @throws {Error} If the canvas context is unavailable.
    */
-  public generate(sizes: number[] = [16, 32, 48]): string {
+  public async generateBytes(
+    sizes: number[] = [16, 32, 48],
+    options: IcoGeneratorOptions = {},
+  ): Promise<Uint8Array> {
+    const entries = this.prepareEntries(sizes, options);
+    for (const entry of entries) {
+      if (entry.usesPng) {
+        entry.png = await canvasToBytes(entry.canvas);
+      }
+    }
+
+    return this.encode(entries, options);
+  }
+
+  /**
+   * Generates an ICO file as a Blob with specified sizes.
+   * @param sizes - Array of sizes (in pixels) for the ICO images (default: [16, 32, 48]).
+   * @param options - Per-size bit depth, source, dithering, resampling and badge options.
+   * @returns A Blob of type image/x-icon.
+   */
+  public async generateBlob(
+    sizes: number[] = [16, 32, 48],
+    options: IcoGeneratorOptions = {},
+  ): Promise<Blob> {
+    const bytes = await this.generateBytes(sizes, options);
+    return new Blob([bytes as BlobPart], { type: "image/x-icon" });
+  }
+
+  /**
+   * Validates the request and resizes the canvas for every entry.
+   * @throws {RangeError} If a size or bit depth is unsupported.
+   */
+  private prepareEntries(
+    sizes: number[],
+    options: IcoGeneratorOptions,
+  ): PreparedEntry[] {
     if (sizes.length === 0) {
       throw new RangeError("At least one size must be provided");
     }
@@ -36,41 +130,127 @@ class Ico {
       throw new RangeError("Sizes must be positive integers between 1 and 256");
     }
 
-    const iconDirHeader = this.createIconDirHeader(sizes.length);
-    let iconDirEntries = "";
-    let bitmapData = "";
-
-    for (let i = 0; i < sizes.length; i++) {
-      const size = sizes[i];
-      const resizedCanvas = new Resize(this.canvas).resize(size, size);
-      const imageData =
-        size >= 256
-          ? this.createPngImageData(resizedCanvas)
-          : this.createBitmapInfoHeader(size) +
-            this.createBitmapImageData(resizedCanvas);
-      const bitmapSize = imageData.length;
-      const bitmapOffset = 6 + 16 * sizes.length + bitmapData.length;
-
-      iconDirEntries += this.createIconDirEntry(size, bitmapSize, bitmapOffset);
-      bitmapData += imageData;
+    const bitDepths = sizes.map((size) => this.resolveBitDepth(size, options));
+
+    const badge = options.badge ? new Badge(options.badge) : null;
+
+    return sizes.map((size, i) => {
+      const canvas = new Resize(
+        selectSource(this.canvas, options.sources, size),
+      ).resize(size, size, options.filter);
+
+      return {
+        size,
+        bitDepth: bitDepths[i],
+        canvas: badge ? badge.composite(canvas) : canvas,
+        // 256px 32-bit entries are stored as PNG for compatibility with common readers
+        usesPng: size >= 256 && bitDepths[i] === 32,
+      };
+    });
+  }
+
+  /**
+   * Assembles the icon directory and entry payloads into one byte array.
+   */
+  private encode(
+    entries: PreparedEntry[],
+    options: IcoGeneratorOptions,
+  ): Uint8Array {
+    const dither = options.dither ?? true;
+    const encoded = entries.map((entry) => this.encodeEntry(entry, dither));
+    const parts: Uint8Array[] = [this.createIconDirHeader(entries.length)];
+    let offset = 6 + 16 * entries.length;
+
+    for (let i = 0; i < entries.length; i++) {
+      parts.push(
+        this.createIconDirEntry(
+          entries[i].size,
+          encoded[i].data.length,
+          offset,
+          encoded[i].bitDepth,
+          encoded[i].colorCount,
+        ),
+      );
+      offset += encoded[i].data.length;
+    }
+
+    return concatBytes([...parts, ...encoded.map((entry) => entry.data)]);
+  }
+
+  /**
+   * Picks the bit depth for a size from the generator options.
+   * @throws {RangeError} If the configured bit depth is unsupported.
+   */
+  private resolveBitDepth(
+    size: number,
+    options: IcoGeneratorOptions,
+  ): IcoBitDepth {
+    const bitDepth =
+      typeof options.bitDepth === "object"
+        ? (options.bitDepth[size] ?? 32)
+        : (options.bitDepth ?? 32);
+
+    if (!SUPPORTED_BIT_DEPTHS.includes(bitDepth)) {
+      throw new RangeError("Bit depth must be 4, 8, or 32");
+    }
+
+    return bitDepth;
+  }
+
+  /**
+   * Encodes a single resized canvas as an ICO entry payload.
+   * PNG entries use the pre-serialized payload, everything else is a BMP with an AND mask.
+   */
+  private encodeEntry(entry: PreparedEntry, dither: boolean): EncodedEntry {
+    const { canvas, bitDepth } = entry;
+    const { width } = canvas;
+
+    if (entry.png) {
+      return { data: entry.png, bitDepth, colorCount: 0 };
+    }
+
+    if (bitDepth === 32) {
+      return {
+        data: concatBytes([
+          this.createBitmapInfoHeader(width, 32, 0),
+          this.createBitmapImageData(canvas),
+        ]),
+        bitDepth,
+        colorCount: 0,
+      };
     }
 
-    const binary = iconDirHeader + iconDirEntries + bitmapData;
-    return `data:image/x-icon;base64,${btoa(binary)}`;
+    const { palette, data } = this.createPalettizedImageData(
+      canvas,
+      bitDepth,
+      dither,
+    );
+    const paletteSize = palette.length / 4;
+
+    return {
+      data: concatBytes([
+        this.createBitmapInfoHeader(width, bitDepth, paletteSize),
+        palette,
+        data,
+      ]),
+      bitDepth,
+      // The directory stores 0 when the palette has 256 or more colors
+      colorCount: paletteSize >= 256 ? 0 : paletteSize,
+    };
   }
 
   /**
    * Creates the icon directory header.
    * @param numImages - Number of images in the ICO file.
-   * @returns Binary string for the header.
+   * @returns Bytes of the header.
    */
-  private createIconDirHeader(numImages: number): string {
+  private createIconDirHeader(numImages: number): Uint8Array {
     const buffer = new ArrayBuffer(6);
     const view = new DataView(buffer);
     view.setUint16(0, 0, true); // Reserved
     view.setUint16(2, 1, true); // ICO type
     view.setUint16(4, numImages, true); // Image count
-    return this.bytesToBinary(new Uint8Array(buffer));
+    return new Uint8Array(buffer);
   }
 
   /**
@@ -78,58 +258,68 @@ class Ico {
    * @param size - Image size (width and height).
    * @param bitmapSize - Size of the bitmap data.
    * @param offset - Offset to the bitmap data.
-   * @returns Binary string for the entry.
+   * @param bitDepth - Bits per pixel of the entry.
+   * @param colorCount - Palette size, or 0 for true-color entries.
+   * @returns Bytes of the entry.
    */
   private createIconDirEntry(
     size: number,
     bitmapSize: number,
     offset: number,
-  ): string {
+    bitDepth: IcoBitDepth,
+    colorCount: number,
+  ): Uint8Array {
     const buffer = new ArrayBuffer(16);
     const view = new DataView(buffer);
     view.setUint8(0, size === 256 ? 0 : size); // Width
     view.setUint8(1, size === 256 ? 0 : size); // Height
-    view.setUint8(2, 0); // Color count
+    view.setUint8(2, colorCount); // Color count
     view.setUint8(3, 0); // Reserved
     view.setUint16(4, 1, true); // Color planes
-    view.setUint16(6, 32, true); // Bits per pixel
+    view.setUint16(6, bitDepth, true); // Bits per pixel
     view.setUint32(8, bitmapSize, true); // Image size
     view.setUint32(12, offset, true); // Offset
-    return this.bytesToBinary(new Uint8Array(buffer));
+    return new Uint8Array(buffer);
   }
 
   /**
    * Creates the bitmap info header.
    * @param size - Image size (width and height).
-   * @returns Binary string for the header.
+   * @param bitDepth - Bits per pixel.
+   * @param colorsUsed - Number of palette entries that follow the header.
+   * @returns Bytes of the header.
    */
-  private createBitmapInfoHeader(size: number): string {
+  private createBitmapInfoHeader(
+    size: number,
+    bitDepth: IcoBitDepth,
+    colorsUsed: number,
+  ): Uint8Array {
     const buffer = new ArrayBuffer(40);
     const view = new DataView(buffer);
     view.setUint32(0, 40, true); // Header size
     view.setInt32(4, size, true); // Width
     view.setInt32(8, 2 * size, true); // Height (doubled for mask)
     view.setUint16(12, 1, true); // Color planes
-    view.setUint16(14, 32, true); // Bits per pixel
+    view.setUint16(14, bitDepth, true); // Bits per pixel
     view.setUint32(16, 0, true); // Compression
     view.setUint32(20, 0, true); // Image size
-    return this.bytesToBinary(new Uint8Array(buffer));
+    view.setUint32(32, colorsUsed, true); // Colors used
+    return new Uint8Array(buffer);
   }
 
   /**
    * Creates bitmap image data from a canvas.
    * @param canvas - The canvas to extract data from.
-   * @returns Binary string of bitmap data.
+   * @returns Bitmap pixel data followed by the AND mask.
    * @throws {Error} If the canvas context is unavailable.
    */
-  private createBitmapImageData(canvas: HTMLCanvasElement): string {
-    const ctx = canvas.getContext("2d");
-    if (!ctx) throw new Error("Failed to get 2D context");
+  private createBitmapImageData(canvas: FaviconCanvas): Uint8Array {
+    const ctx = getContext2d(canvas);
 
     const { width, height } = canvas;
     const imageData = ctx.getImageData(0, 0, width, height);
     const rgbaData = imageData.data;
-    const bgraData = new Uint8ClampedArray(rgbaData.length);
+    const bgraData = new Uint8Array(rgbaData.length);
 
     // Convert RGBA to BGRA and rotate
     for (let y = 0; y < height; y++) {
@@ -143,38 +333,93 @@ class Ico {
       }
     }
 
-    const maskRowSize = Math.ceil(width / 32) * 4;
-    const maskSize = maskRowSize * height;
-    const bitmapMask = new Uint8Array(maskSize).fill(0); // No transparency
-    return this.bytesToBinary(bgraData) + this.bytesToBinary(bitmapMask);
+    const bitmapMask = this.createAndMask(rgbaData, width, height);
+    return concatBytes([bgraData, bitmapMask]);
   }
 
   /**
-   * Creates PNG-compressed image data for large ICO entries.
+   * Creates palette, pixel and mask data for 4-bit and 8-bit entries.
+   * Transparent pixels share a reserved black palette slot so the XOR image
+   * stays neutral where the AND mask reveals the background.
+   * @returns The BGRX palette and the pixel rows followed by the AND mask.
+   * @throws {Error} If the canvas context is unavailable.
    */
-  private createPngImageData(canvas: HTMLCanvasElement): string {
-    const payload = canvas.toDataURL("image/png").split(",")[1];
+  private createPalettizedImageData(
+    canvas: FaviconCanvas,
+    bitDepth: 4 | 8,
+    dither: boolean,
+  ): { palette: Uint8Array; data: Uint8Array } {
+    const ctx = getContext2d(canvas);
 
-    if (!payload) {
-      throw new Error("Failed to serialize PNG data");
+    const { width, height } = canvas;
+    const rgbaData = ctx.getImageData(0, 0, width, height).data;
+    let hasTransparency = false;
+    for (let i = 3; i < rgbaData.length; i += 4) {
+      if (rgbaData[i] < 128) {
+        hasTransparency = true;
+        break;
+      }
+    }
+
+    const reserved = hasTransparency ? 1 : 0;
+    const { palette: rgbPalette, indices } = new Quantize(
+      rgbaData,
+      width,
+      height,
+    ).quantize((1 << bitDepth) - reserved, dither);
+    const paletteSize = rgbPalette.length / 3 + reserved;
+    const palette = new Uint8Array(paletteSize * 4);
+    for (let i = 0; i < rgbPalette.length / 3; i++) {
+      const dest = (i + reserved) * 4;
+      palette[dest] = rgbPalette[i * 3 + 2]; // B
+      palette[dest + 1] = rgbPalette[i * 3 + 1]; // G
+      palette[dest + 2] = rgbPalette[i * 3]; // R
     }
 
-    return atob(payload);
+    const rowSize = Math.ceil((width * bitDepth) / 32) * 4;
+    const pixels = new Uint8Array(rowSize * height);
+    for (let y = 0; y < height; y++) {
+      const row = (height - 1 - y) * rowSize;
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const index = rgbaData[p * 4 + 3] < 128 ? 0 : indices[p] + reserved;
+        if (bitDepth === 8) {
+          pixels[row + x] = index;
+        } else {
+          pixels[row + (x >> 1)] |= x % 2 === 0 ? index << 4 : index;
+        }
+      }
+    }
+
+    const bitmapMask = this.createAndMask(rgbaData, width, height);
+    return {
+      palette,
+      data: concatBytes([pixels, bitmapMask]),
+    };
   }
 
   /**
-   * Converts bytes to a binary string in chunks to avoid spreading large arrays.
+   * Creates the 1-bit AND mask from the alpha channel, bottom-up with rows padded to 32 bits.
+   * Pixels with alpha below 128 are marked transparent.
    */
-  private bytesToBinary(bytes: ArrayLike<number>): string {
-    const chunkSize = 0x8000;
-    let binary = "";
+  private createAndMask(
+    rgbaData: Uint8ClampedArray,
+    width: number,
+    height: number,
+  ): Uint8Array {
+    const maskRowSize = Math.ceil(width / 32) * 4;
+    const bitmapMask = new Uint8Array(maskRowSize * height);
 
-    for (let i = 0; i < bytes.length; i += chunkSize) {
-      const chunk = Array.prototype.slice.call(bytes, i, i + chunkSize);
-      binary += String.fromCharCode(...chunk);
+    for (let y = 0; y < height; y++) {
+      const row = (height - 1 - y) * maskRowSize;
+      for (let x = 0; x < width; x++) {
+        if (rgbaData[(y * width + x) * 4 + 3] < 128) {
+          bitmapMask[row + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+      }
     }
 
-    return binary;
+    return bitmapMask;
   }
 }
 
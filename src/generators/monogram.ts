@@ -0,0 +1,272 @@
+import TextIconGenerator from "./center";
+import {
+  FaviconCanvas,
+  FontLoadOptions,
+  MonogramColors,
+  MonogramGeneratorOptions,
+  TextIconGeneratorOptions,
+} from "../types";
+import { createCanvas } from "../utils/canvas";
+import { splitGraphemes } from "../utils/text";
+
+/** Tailwind 600 shades, readable with either white or near-black text */
+export const DEFAULT_MONOGRAM_PALETTE = [
+  "#dc2626",
+  "#ea580c",
+  "#d97706",
+  "#65a30d",
+  "#16a34a",
+  "#0d9488",
+  "#0891b2",
+  "#2563eb",
+  "#4f46e5",
+  "#7c3aed",
+  "#c026d3",
+  "#db2777",
+];
+
+const LIGHT_TEXT = "#ffffff";
+const DARK_TEXT = "#111827";
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Splits words on whitespace and common name separators
+const WORD_SEPARATOR = /[\s\-_.,/@&+]+/u;
+// Splits single camelCase words such as "GitHub"
+const CASE_BOUNDARY = /(?<=\p{Ll})(?=\p{Lu})/u;
+const LETTER_OR_NUMBER = /^[\p{L}\p{N}]/u;
+
+/**
+ * Normalizes a name so the same tenant always hashes to the same color,
+ * regardless of case, spacing or Unicode composition.
+ */
+const normalizeName = (name: string): string =>
+  name.normalize("NFC").trim().replace(/\s+/g, " ").toLowerCase();
+
+/**
+ * 32-bit FNV-1a hash over UTF-16 code units.
+ */
+function hashName(name: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * WCAG relative luminance of a hex color.
+ */
+function relativeLuminance(hex: string): number {
+  const digits =
+    hex.length === 4
+      ? hex
+          .slice(1)
+          .split("")
+          .map((digit) => digit + digit)
+      : [hex.slice(1, 3), hex.slice(3, 5), hex.slice(5, 7)];
+  const [r, g, b] = digits.map((channel) => {
+    const value = parseInt(channel, 16) / 255;
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+const contrastRatio = (a: number, b: number): number =>
+  (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+
+/**
+ * Generates text icons with initials and a stable color derived from a
+ * display name.
+ */
+class MonogramGenerator<T extends FaviconCanvas = HTMLCanvasElement> {
+  private readonly generator: TextIconGenerator<T>;
+
+  /**
+   * Creates an instance of MonogramGenerator.
+   * @param canvas - The canvas to draw the monogram on.
+   * @throws {TypeError} If the parameter is not an HTMLCanvasElement or OffscreenCanvas.
+   */
+  constructor(canvas: T) {
+    this.generator = new TextIconGenerator(canvas);
+  }
+
+  /**
+   * Derives initials from a display name: the first letter of the first and
+   * last words, or of each camelCase part of a single word. Words that start
+   * with neither a letter nor a number, such as emoji, are skipped unless
+   * nothing else is left.
+   * @param name - Display name.
+   * @param maxInitials - Maximum number of initials (default: 2).
+   * @returns Upper-cased initials, or an empty string for a blank name.
+   * @throws {RangeError} If maxInitials is not a positive integer.
+   */
+  public static initials(name: string, maxInitials = 2): string {
+    if (!Number.isInteger(maxInitials) || maxInitials <= 0) {
+      throw new RangeError("Max initials must be a positive integer");
+    }
+
+    const words = name.normalize("NFC").split(WORD_SEPARATOR).filter(Boolean);
+    const named = words.filter((word) => LETTER_OR_NUMBER.test(word));
+    let parts = named.length > 0 ? named : words;
+    if (parts.length === 1) {
+      parts = parts[0].split(CASE_BOUNDARY);
+    }
+
+    // Keep the last word, which is usually the family name
+    const picked =
+      parts.length > maxInitials
+        ? [...parts.slice(0, maxInitials - 1), parts[parts.length - 1]]
+        : parts;
+
+    return picked
+      .map((part) => splitGraphemes(part)[0].toLocaleUpperCase())
+      .join("");
+  }
+
+  /**
+   * Picks a background color from the palette by hashing the name, and a
+   * contrasting font color. The same name always gets the same colors.
+   * @param name - Display name.
+   * @param palette - Hex colors to pick from (default: DEFAULT_MONOGRAM_PALETTE).
+   * @returns The background and font colors.
+   * @throws {RangeError} If the palette is empty or contains a non-hex color.
+   */
+  public static colors(
+    name: string,
+    palette: string[] = DEFAULT_MONOGRAM_PALETTE,
+  ): MonogramColors {
+    if (!Array.isArray(palette) || palette.length === 0) {
+      throw new RangeError("Palette must contain at least one color");
+    }
+    const invalid = palette.find((color) => !HEX_COLOR.test(color));
+    if (invalid !== undefined) {
+      throw new RangeError(
+        `Palette colors must be #rgb or #rrggbb hex values, got "${invalid}"`,
+      );
+    }
+
+    const backgroundColor =
+      palette[hashName(normalizeName(name)) % palette.length];
+    const luminance = relativeLuminance(backgroundColor);
+    const fontColor =
+      contrastRatio(luminance, relativeLuminance(DARK_TEXT)) >
+      contrastRatio(luminance, relativeLuminance(LIGHT_TEXT))
+        ? DARK_TEXT
+        : LIGHT_TEXT;
+
+    return { backgroundColor, fontColor };
+  }
+
+  /**
+   * Resolves the text icon options for a monogram. Explicit colors override
+   * the derived ones; the text is auto-fitted and semi-bold by default.
+   * @param options - Name, palette and text icon options.
+   * @returns Options for TextIconGenerator.
+   * @throws {TypeError} If the name is not a string.
+   * @throws {RangeError} If the name is blank, or maxInitials or the palette is invalid.
+   */
+  public static resolve(
+    options: MonogramGeneratorOptions,
+  ): TextIconGeneratorOptions {
+    const { name, maxInitials, palette, ...iconOptions } = options;
+    if (typeof name !== "string") {
+      throw new TypeError("Name must be a string");
+    }
+
+    const text = MonogramGenerator.initials(name, maxInitials);
+    if (!text) {
+      throw new RangeError("Name must contain at least one character");
+    }
+
+    return {
+      autoFit: true,
+      fontWeight: "600",
+      ...MonogramGenerator.colors(name, palette),
+      ...iconOptions,
+      text,
+    };
+  }
+
+  /**
+   * Draws the monogram on the canvas.
+   * @param options - Name, palette and text icon options.
+   * @returns The generated canvas element.
+   * @throws {TypeError} If the name is not a string.
+   * @throws {RangeError} If the name is blank, or maxInitials or the palette is invalid.
+   * @throws {Error} If canvas context is unavailable or text icon options are invalid.
+   */
+  public generate(options: MonogramGeneratorOptions): T {
+    return this.generator.generate(MonogramGenerator.resolve(options));
+  }
+
+  /**
+   * Draws the monogram once the requested font has loaded.
+   * @param options - Name, palette, text icon and font loading options.
+   * @returns Promise resolving to the generated canvas element.
+   * @throws {TypeError} If the name is not a string.
+   * @throws {RangeError} If the name is blank, or maxInitials, the palette or the font timeout is invalid.
+   * @throws {Error} If canvas context is unavailable or text icon options are invalid.
+   */
+  public async generateAsync(
+    options: MonogramGeneratorOptions & FontLoadOptions,
+  ): Promise<T> {
+    const { fontTimeout, onFontFallback, fonts, ...monogramOptions } = options;
+    return this.generator.generateAsync({
+      ...MonogramGenerator.resolve(monogramOptions),
+      fontTimeout,
+      onFontFallback,
+      fonts,
+    });
+  }
+
+  /**
+   * Renders the monogram as an SVG document.
+   * @param options - Name, palette and text icon options.
+   * @returns SVG markup.
+   * @throws {TypeError} If the name is not a string.
+   * @throws {RangeError} If the name is blank, or maxInitials or the palette is invalid.
+   * @throws {Error} If text icon options are invalid.
+   */
+  public svg(options: MonogramGeneratorOptions): string {
+    return this.generator.svg(MonogramGenerator.resolve(options));
+  }
+
+  /**
+   * Static method to create and generate a monogram on a new canvas.
+   * @param options - Name, palette and text icon options.
+   * @returns The generated canvas (an OffscreenCanvas inside Web Workers).
+   */
+  public static generate(options: MonogramGeneratorOptions): FaviconCanvas {
+    return new MonogramGenerator<FaviconCanvas>(createCanvas(1, 1)).generate(
+      options,
+    );
+  }
+
+  /**
+   * Static method to create and generate a monogram on a new canvas once the
+   * requested font has loaded.
+   * @param options - Name, palette, text icon and font loading options.
+   * @returns Promise resolving to the generated canvas (an OffscreenCanvas
+   * inside Web Workers).
+   */
+  public static generateAsync(
+    options: MonogramGeneratorOptions & FontLoadOptions,
+  ): Promise<FaviconCanvas> {
+    return new MonogramGenerator<FaviconCanvas>(
+      createCanvas(1, 1),
+    ).generateAsync(options);
+  }
+
+  /**
+   * Static method to render a monogram as SVG markup.
+   * @param options - Name, palette and text icon options.
+   * @returns SVG markup.
+   */
+  public static svg(options: MonogramGeneratorOptions): string {
+    return TextIconGenerator.svg(MonogramGenerator.resolve(options));
+  }
+}
+
+export default MonogramGenerator;
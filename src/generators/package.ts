@@ -0,0 +1,136 @@
+import IcoGenerator from "./ico";
+import { FaviconSource, PackageExportOptions, PackageLayout } from "../types";
+import PngGenerator from "./png";
+import {
+  DEFAULT_SAFE_ZONE,
+  resolveMaskableVariants,
+} from "../composer/maskable";
+import {
+  DEFAULT_ICO_SIZES,
+  DEFAULT_PNG_SIZES,
+  createManifestOptions,
+  getPresetBlueprint,
+  renderHtmlSnippet,
+  renderManifest,
+} from "../presets";
+import { isCanvasSource, selectSource } from "../utils/canvas";
+import Zip from "../utils/zip";
+
+/**
+ * Packages the ICO, named PNGs, HTML snippet and web manifest into a ZIP
+ * archive, using the same file names as the CLI presets.
+ */
+class Package {
+  private readonly canvas: FaviconSource;
+
+  /**
+   * Creates an instance of Package.
+   * @param canvas - The source canvas element to generate the package from.
+   * @throws {TypeError} If the parameter is not an HTMLCanvasElement, OffscreenCanvas or ImageBitmap.
+   */
+  constructor(canvas: FaviconSource) {
+    if (!isCanvasSource(canvas)) {
+      throw new TypeError(
+        "Parameter must be an HTMLCanvasElement, OffscreenCanvas or ImageBitmap",
+      );
+    }
+    this.canvas = canvas;
+  }
+
+  /**
+   * Resolves the files a package will contain without rendering them.
+   * @param options - Preset, naming, manifest and maskable options.
+   * @returns The package layout.
+   */
+  public static layout(options: PackageExportOptions = {}): PackageLayout {
+    const baseName = options.baseName ?? "favicon";
+    const maskable = resolveMaskableVariants(options.maskable);
+    const blueprint = getPresetBlueprint(
+      options.preset ?? "default",
+      baseName,
+      options.pngSizes ?? DEFAULT_PNG_SIZES,
+      options.icoSizes ?? DEFAULT_ICO_SIZES,
+      maskable?.sizes,
+    );
+    const manifestOptions = createManifestOptions(baseName, options.manifest);
+
+    return {
+      baseName,
+      ...blueprint,
+      manifestOptions: blueprint.manifest ? manifestOptions : undefined,
+      maskableOptions: maskable
+        ? {
+            backgroundColor:
+              maskable.options.backgroundColor ??
+              manifestOptions.backgroundColor,
+            safeZone: maskable.options.safeZone ?? DEFAULT_SAFE_ZONE,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Generates the package as ZIP bytes.
+   * @param options - Preset, naming, manifest and rendering options.
+   * @returns The ZIP file contents.
+   * @throws {RangeError} If a size or the maskable safe zone is invalid.
+   */
+  public async generateBytes(
+    options: PackageExportOptions = {},
+  ): Promise<Uint8Array> {
+    return (await this.buildArchive(options)).toBytes();
+  }
+
+  /**
+   * Generates the package as a ZIP Blob.
+   * @param options - Preset, naming, manifest and rendering options.
+   * @returns A Blob of type application/zip.
+   * @throws {RangeError} If a size or the maskable safe zone is invalid.
+   */
+  public async generateBlob(options: PackageExportOptions = {}): Promise<Blob> {
+    return (await this.buildArchive(options)).toBlob();
+  }
+
+  private async buildArchive(options: PackageExportOptions): Promise<Zip> {
+    const layout = Package.layout(options);
+    const zip = new Zip();
+    const pngs = new Map<string, Uint8Array>();
+
+    for (const output of layout.pngOutputs) {
+      const key = `${output.purpose ?? "any"}:${output.size}`;
+      const png =
+        pngs.get(key) ??
+        (await new PngGenerator(
+          selectSource(this.canvas, options.sources, output.size),
+        ).generateBytes(output.size, {
+          filter: options.filter,
+          maskable:
+            output.purpose === "maskable" ? layout.maskableOptions : undefined,
+        }));
+      pngs.set(key, png);
+      zip.add(output.filename, png);
+    }
+
+    if (layout.icoSizes.length > 0) {
+      zip.add(
+        `${layout.baseName}.ico`,
+        await new IcoGenerator(this.canvas).generateBytes(layout.icoSizes, {
+          filter: options.filter,
+          sources: options.sources,
+        }),
+      );
+    }
+
+    if (layout.htmlSnippet) {
+      zip.add(`${layout.baseName}.html`, renderHtmlSnippet(layout));
+    }
+
+    if (layout.manifest) {
+      zip.add(layout.manifestFilename, renderManifest(layout));
+    }
+
+    return zip;
+  }
+}
+
+export default Package;
@@ -1,11 +1,18 @@
+import Badge from "../composer/badge";
+import Maskable from "../composer/maskable";
+import { FaviconCanvas, FaviconSource, PngGeneratorOptions } from "../types";
+import { canvasToBlob, canvasToBytes, canvasToDataUrl } from "../utils/binary";
+import { isCanvasSource } from "../utils/canvas";
 import Resize from "../utils/resize";
 
 class Png {
-  private readonly canvas: HTMLCanvasElement;
+  private readonly canvas: FaviconSource;
 
-  constructor(canvas: HTMLCanvasElement) {
-    if (!(canvas instanceof HTMLCanvasElement)) {
-      throw new TypeError("Parameter must be an HTMLCanvasElement");
+  constructor(canvas: FaviconSource) {
+    if (!isCanvasSource(canvas)) {
+      throw new TypeError(
+        "Parameter must be an HTMLCanvasElement, OffscreenCanvas or ImageBitmap",
+      );
     }
     this.canvas = canvas;
   }
@@ -13,15 +20,52 @@ class Png {
   /**
    * Generates a PNG image of specified size
    * @param size - Size in pixels (width and height)
+   * @param options - Resampling filter, badge and maskable rendering
    * @returns Data URL of PNG image
    */
-  public generate(size: number): string {
+  public generate(size: number, options: PngGeneratorOptions = {}): string {
+    return canvasToDataUrl(this.resizeTo(size, options));
+  }
+
+  /**
+   * Generates PNG bytes of specified size
+   * @param size - Size in pixels (width and height)
+   * @param options - Resampling filter, badge and maskable rendering
+   * @returns PNG file contents
+   */
+  public async generateBytes(
+    size: number,
+    options: PngGeneratorOptions = {},
+  ): Promise<Uint8Array> {
+    return canvasToBytes(this.resizeTo(size, options));
+  }
+
+  /**
+   * Generates a PNG Blob of specified size
+   * @param size - Size in pixels (width and height)
+   * @param options - Resampling filter, badge and maskable rendering
+   * @returns Blob of type image/png
+   */
+  public async generateBlob(
+    size: number,
+    options: PngGeneratorOptions = {},
+  ): Promise<Blob> {
+    return canvasToBlob(this.resizeTo(size, options));
+  }
+
+  private resizeTo(size: number, options: PngGeneratorOptions): FaviconCanvas {
     if (!Number.isInteger(size) || size <= 0) {
       throw new RangeError("Size must be a positive integer");
     }
 
-    const resizedCanvas = new Resize(this.canvas).resize(size, size);
-    return resizedCanvas.toDataURL();
+    const canvas = options.maskable
+      ? new Maskable(options.maskable).composite(
+          this.canvas,
+          size,
+          options.filter,
+        )
+      : new Resize(this.canvas).resize(size, size, options.filter);
+    return options.badge ? new Badge(options.badge).composite(canvas) : canvas;
   }
 }
 
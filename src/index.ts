@@ -1,12 +1,69 @@
+export { default as BadgeCompositor } from "./composer/badge";
 export { default as ImageBundleGenerator } from "./generators/bundle";
 export { default as TextIconGenerator } from "./generators/center";
 export { default as FaviconComposer } from "./composer/favicon";
+export { default as FaviconAnimator } from "./dom/animator";
+export { default as FaviconLinkManager } from "./dom/links";
+export { default as IcnsGenerator } from "./generators/icns";
 export { default as IcoGenerator } from "./generators/ico";
+export { default as IcoDecoder } from "./decoders/ico";
+export { default as MaskableCompositor } from "./composer/maskable";
+export {
+  default as MonogramGenerator,
+  DEFAULT_MONOGRAM_PALETTE,
+} from "./generators/monogram";
 export type {
+  BadgeOptions,
+  BadgePosition,
   BundleGeneratorOptions,
+  CanvasFactory,
+  DecodedIcoFrame,
+  FaviconAnimatorOptions,
+  FaviconCanvas,
+  FaviconFrameRenderer,
+  FaviconLink,
+  FaviconMarkupOptions,
+  FaviconMarkupSource,
+  FaviconSource,
+  FaviumConfig,
+  FontFallbackEvent,
+  FontFallbackReason,
+  FontLoadOptions,
+  GeneratedBinaryBundle,
   GeneratedImageBundle,
+  GradientStop,
+  IcnsOsType,
+  IcoBitDepth,
+  IcoEntryEncoding,
+  IcoEntryInfo,
+  IcoFileInfo,
+  IcoGeneratorOptions,
   ImageBundleOptions,
+  LinearGradientFill,
+  ManifestOptions,
+  MaskableOptions,
+  MaskableVariantOptions,
+  MonogramColors,
+  MonogramGeneratorOptions,
+  PackageExportOptions,
+  PackageLayout,
+  PackagePreset,
+  PngGeneratorOptions,
+  PngOutputSpec,
+  RadialGradientFill,
+  ResampleFilter,
+  ResizedCanvas,
+  TextIconBorder,
+  TextIconDarkColors,
+  TextIconFill,
   TextIconGeneratorOptions,
+  TextIconShadow,
+  TextIconShape,
+  TextIconShapeName,
+  TextIconStroke,
 } from "./types";
+export { default as PackageExporter } from "./generators/package";
 export { default as PngGenerator } from "./generators/png";
 export { default as CanvasResize } from "./utils/resize";
+export { setCanvasFactory } from "./utils/canvas";
+export { renderHtmlSnippet, renderManifest } from "./presets";
@@ -0,0 +1,361 @@
+import {
+  FaviconLink,
+  FaviconMarkupOptions,
+  FaviconMarkupSource,
+  ManifestOptions,
+  PackageLayout,
+  PackagePreset,
+  PngOutputSpec,
+} from "../types";
+
+export const DEFAULT_ICO_SIZES = [16, 32, 48];
+export const DEFAULT_PNG_SIZES = [16, 32, 150, 180, 192, 512];
+
+/**
+ * Returns the file layout of a naming preset. Shared by the CLI and the
+ * browser package exporter so both produce the same file names.
+ * @param preset - Naming preset.
+ * @param baseName - Base name for files that are not named by convention.
+ * @param pngSizes - PNG sizes for the "custom" preset.
+ * @param icoSizes - ICO sizes for the "custom" preset.
+ * @param maskableSizes - Sizes of maskable variants listed in the manifest
+ * next to the regular icons, for any preset.
+ */
+export function getPresetBlueprint(
+  preset: PackagePreset,
+  baseName: string,
+  pngSizes: number[] = DEFAULT_PNG_SIZES,
+  icoSizes: number[] = DEFAULT_ICO_SIZES,
+  maskableSizes: number[] = [],
+): Pick<
+  PackageLayout,
+  "icoSizes" | "pngOutputs" | "htmlSnippet" | "manifest" | "manifestFilename"
+> {
+  const blueprint = getNamedBlueprint(preset, baseName, pngSizes, icoSizes);
+  if (maskableSizes.length === 0) return blueprint;
+
+  const prefix = preset === "custom" ? `${baseName}-maskable` : "maskable-icon";
+  return {
+    ...blueprint,
+    pngOutputs: [
+      ...blueprint.pngOutputs,
+      ...maskableSizes.map((size): PngOutputSpec => ({
+        size,
+        filename: `${prefix}-${size}x${size}.png`,
+        manifest: true,
+        purpose: "maskable",
+      })),
+    ],
+    manifest: true,
+  };
+}
+
+function getNamedBlueprint(
+  preset: PackagePreset,
+  baseName: string,
+  pngSizes: number[],
+  icoSizes: number[],
+): Pick<
+  PackageLayout,
+  "icoSizes" | "pngOutputs" | "htmlSnippet" | "manifest" | "manifestFilename"
+> {
+  if (preset === "custom") {
+    return {
+      icoSizes,
+      pngOutputs: pngSizes.map((size) => ({
+        size,
+        filename: `${baseName}-${size}x${size}.png`,
+        rel:
+          size === 180 ? "apple-touch-icon" : size <= 64 ? "icon" : undefined,
+        manifest: size === 192 || size === 512,
+      })),
+      htmlSnippet: true,
+      manifest: pngSizes.includes(192) || pngSizes.includes(512),
+      manifestFilename: "manifest.webmanifest",
+    };
+  }
+
+  if (preset === "apple-android") {
+    return {
+      icoSizes: [16, 32, 48],
+      pngOutputs: [
+        {
+          size: 180,
+          filename: "apple-touch-icon.png",
+          rel: "apple-touch-icon",
+        },
+        { size: 192, filename: "android-chrome-192x192.png", manifest: true },
+        { size: 512, filename: "android-chrome-512x512.png", manifest: true },
+      ],
+      htmlSnippet: true,
+      manifest: true,
+      manifestFilename: "manifest.webmanifest",
+    };
+  }
+
+  if (preset === "web-app") {
+    return {
+      icoSizes: [16, 32, 48, 64, 256],
+      pngOutputs: [
+        { size: 16, filename: "favicon-16x16.png", rel: "icon" },
+        { size: 32, filename: "favicon-32x32.png", rel: "icon" },
+        { size: 64, filename: `${baseName}-64x64.png` },
+        { size: 128, filename: `${baseName}-128x128.png` },
+        {
+          size: 180,
+          filename: "apple-touch-icon.png",
+          rel: "apple-touch-icon",
+        },
+        { size: 192, filename: "android-chrome-192x192.png", manifest: true },
+        { size: 256, filename: "android-chrome-256x256.png" },
+        { size: 512, filename: "android-chrome-512x512.png", manifest: true },
+      ],
+      htmlSnippet: true,
+      manifest: true,
+      manifestFilename: "manifest.webmanifest",
+    };
+  }
+
+  return {
+    icoSizes: DEFAULT_ICO_SIZES,
+    pngOutputs: [
+      { size: 16, filename: "favicon-16x16.png", rel: "icon" },
+      { size: 32, filename: "favicon-32x32.png", rel: "icon" },
+      { size: 150, filename: "mstile-150x150.png" },
+      { size: 180, filename: "apple-touch-icon.png", rel: "apple-touch-icon" },
+      { size: 192, filename: "android-chrome-192x192.png", manifest: true },
+      { size: 512, filename: "android-chrome-512x512.png", manifest: true },
+    ],
+    htmlSnippet: true,
+    manifest: true,
+    manifestFilename: "manifest.webmanifest",
+  };
+}
+
+/**
+ * Resolves web manifest fields, filling missing ones with the CLI defaults.
+ * @param baseName - Fallback for the app name.
+ * @param overrides - Fields to override.
+ */
+export function createManifestOptions(
+  baseName: string,
+  overrides: Partial<ManifestOptions> = {},
+): ManifestOptions {
+  const name = overrides.name ?? baseName;
+
+  return {
+    name,
+    shortName: overrides.shortName ?? name,
+    backgroundColor: overrides.backgroundColor ?? "#ffffff",
+    themeColor: overrides.themeColor ?? "#111827",
+    display: overrides.display ?? "standalone",
+    startUrl: overrides.startUrl ?? "/",
+  };
+}
+
+/**
+ * Renders the `<link>` tags for a generated bundle or a package layout.
+ * Bundle sizes are named after the preset, falling back to the "custom"
+ * naming for sizes the preset does not cover.
+ * @param source - Generated bundle, or a resolved layout such as a CLI plan.
+ * @param options - Naming, path and manifest options. Naming options are
+ * @returns One `<link>` tag per line, with attribute values escaped.
+ * @returns One `<link>` tag per line.
+ * @throws {TypeError} If inline hrefs are requested without data URLs.
+ */
+export function renderHtmlSnippet(
+  source: FaviconMarkupSource,
+  options: FaviconMarkupOptions = {},
+): string {
+  return describeLinks(source, options)
+    .map(
+      (link) =>
+        `<link ${Object.entries(link)
+          .map(([name, value]) => `${name}="${escapeAttribute(value)}"`)
+          .join(" ")}>`,
+    )
+    .join("\n");
+}
+
+/**
+ * Lists the `<link>` elements for a generated bundle or a package layout, with
+ * attributes in the order they are rendered.
+ * @param source - Generated bundle, or a resolved layout such as a CLI plan.
+ * @param options - Naming, path and manifest options.
+ * @throws {TypeError} If inline hrefs are requested without data URLs.
+ */
+export function describeLinks(
+  source: FaviconMarkupSource,
+  options: FaviconMarkupOptions = {},
+): FaviconLink[] {
+  const layout = resolveLayout(source, options);
+  const href = createHrefResolver(source, options);
+  const links: FaviconLink[] = [];
+
+  if (layout.icoSizes.length > 0) {
+    links.push({
+      rel: "icon",
+      href: href(`${layout.baseName}.ico`, "ico"),
+      sizes: "any",
+    });
+  }
+
+  for (const output of layout.pngOutputs) {
+    if (output.rel === "icon") {
+      links.push({
+        rel: "icon",
+        type: "image/png",
+        sizes: `${output.size}x${output.size}`,
+        href: href(output.filename, output),
+      });
+    }
+
+    if (output.rel === "apple-touch-icon") {
+      links.push({
+        rel: "apple-touch-icon",
+        sizes: `${output.size}x${output.size}`,
+        href: href(output.filename, output),
+      });
+    }
+  }
+
+  if (layout.manifest) {
+    links.push({ rel: "manifest", href: href(layout.manifestFilename) });
+  }
+
+  return links;
+}
+
+/**
+ * Renders the web manifest JSON for a generated bundle or a package layout.
+ * @param source - Generated bundle, or a resolved layout such as a CLI plan.
+ * @param options - Naming, path and manifest options.
+ * @returns Pretty-printed manifest JSON.
+ * @throws {Error} If a layout has no manifest options.
+ * @throws {TypeError} If inline hrefs are requested without data URLs.
+ */
+export function renderManifest(
+  source: FaviconMarkupSource,
+  options: FaviconMarkupOptions = {},
+): string {
+  const layout = resolveLayout(source, options);
+  const href = createHrefResolver(source, options);
+
+  if (!layout.manifestOptions) {
+    throw new Error(
+      "Manifest options are required when manifest generation is enabled",
+    );
+  }
+
+  const icons = layout.pngOutputs
+    .filter((output) => output.manifest)
+    .map((output) => ({
+      src: href(output.filename, output),
+      sizes: `${output.size}x${output.size}`,
+      type: "image/png",
+      purpose: output.purpose ?? "any",
+    }));
+
+  return JSON.stringify(
+    {
+      name: layout.manifestOptions.name,
+      short_name: layout.manifestOptions.shortName,
+      start_url: layout.manifestOptions.startUrl,
+      display: layout.manifestOptions.display,
+      background_color: layout.manifestOptions.backgroundColor,
+      theme_color: layout.manifestOptions.themeColor,
+      icons,
+    },
+    null,
+    2,
+  );
+}
+
+function isLayout(source: FaviconMarkupSource): source is PackageLayout {
+  return "pngOutputs" in source;
+}
+
+/**
+ * Names every size of a bundle after the preset so the markup matches the
+ * files a package export or the CLI would write.
+ */
+function resolveLayout(
+  source: FaviconMarkupSource,
+  options: FaviconMarkupOptions,
+): PackageLayout {
+  if (isLayout(source)) return source;
+
+  const baseName = options.baseName ?? "favicon";
+  const sizes = Object.keys(source.pngs).map(Number);
+  const maskableSizes = Object.keys(source.maskable ?? {}).map(Number);
+  const preset = getPresetBlueprint(
+    options.preset ?? "default",
+    baseName,
+    undefined,
+    undefined,
+    maskableSizes,
+  );
+  const custom = getPresetBlueprint(
+    "custom",
+    baseName,
+    sizes,
+    undefined,
+    maskableSizes,
+  );
+  const pngOutputs = custom.pngOutputs.map(
+    (output) =>
+      preset.pngOutputs.find(
+        (candidate) =>
+          candidate.size === output.size &&
+          candidate.purpose === output.purpose,
+      ) ?? output,
+  );
+
+  return {
+    baseName,
+    icoSizes: preset.icoSizes,
+    pngOutputs,
+    htmlSnippet: true,
+    manifest: pngOutputs.some((output) => output.manifest),
+    manifestFilename: options.manifestFilename ?? "manifest.webmanifest",
+    manifestOptions: createManifestOptions(baseName, options.manifest),
+  };
+}
+
+/**
+ * Returns a function mapping a file name to its href, or to the bundle's
+ * data URL for the given ICO or PNG output when inlining.
+ */
+function createHrefResolver(
+  source: FaviconMarkupSource,
+  options: FaviconMarkupOptions,
+): (filename: string, image?: "ico" | PngOutputSpec) => string {
+  const basePath = options.basePath ?? "./";
+
+  return (filename, image) => {
+    if (!options.inline || image === undefined) {
+      return `${basePath}${filename}`;
+    }
+
+    const dataUrl = isLayout(source)
+      ? undefined
+      : image === "ico"
+        ? source.ico
+        : image.purpose === "maskable"
+          ? source.maskable?.[image.size]
+          : source.pngs[image.size];
+    if (typeof dataUrl !== "string") {
+      throw new TypeError("Inline hrefs require a bundle of data URLs");
+    }
+    return dataUrl;
+  };
+}
+
+/** Escapes a value for a double-quoted HTML attribute */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
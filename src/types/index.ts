@@ -1,3 +1,21 @@
+/** Canvas that Favium can draw intermediate images on */
+export type FaviconCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/** Image that Favium can generate favicons from */
+export type FaviconSource = FaviconCanvas | ImageBitmap;
+
+/** Canvas a source resizes to: DOM canvases stay DOM canvases */
+export type ResizedCanvas<T extends FaviconSource> = T extends HTMLCanvasElement
+  ? HTMLCanvasElement
+  : FaviconCanvas;
+
+/** 2D context of a DOM or offscreen canvas */
+export type Canvas2DContext =
+  CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Creates an empty canvas of the given size */
+export type CanvasFactory = (width: number, height: number) => FaviconCanvas;
+
 export interface GeneratedImageBundle {
   /** Data URL for the ICO image */
   ico: string;
@@ -15,6 +33,8 @@ export interface GeneratedImageBundle {
   png192?: string;
   /** Data URL for the 512x512 PNG image */
   png512?: string;
+  /** Maskable PNG images keyed by pixel size, when requested */
+  maskable?: Record<number, string>;
 }
 
 export interface ImageBundleOptions extends GeneratedImageBundle {
@@ -32,22 +52,232 @@ export interface ImageBundleOptions extends GeneratedImageBundle {
   png512: string;
 }
 
+export interface GeneratedBinaryBundle {
+  /** ICO file as a Blob */
+  ico: Blob;
+  /** PNG files keyed by pixel size */
+  pngs: Record<number, Blob>;
+  /** Maskable PNG files keyed by pixel size, when requested */
+  maskable?: Record<number, Blob>;
+}
+
 export interface BundleGeneratorOptions {
   /** Sizes in pixels to include in the ICO image (default: [16, 32, 48]) */
   icoSizes?: number[];
   /** Sizes in pixels to include in the PNG bundle (default: [16, 32, 150, 180, 192, 512]) */
   pngSizes?: number[];
+  /** Resampling filter for every generated size (default: browser `drawImage` scaling) */
+  filter?: ResampleFilter;
+  /** Notification badge drawn on every ICO and PNG size */
+  badge?: BadgeOptions;
+  /**
+   * Alternative sources keyed by the largest size they cover, e.g. a hand-hinted
+   * 16px drawing. Each size uses the nearest larger key; sizes above every key
+   * use the main canvas
+   */
+  sources?: Record<number, FaviconSource>;
+  /** Also generate maskable variants for the web manifest (default: false) */
+  maskable?: boolean | MaskableVariantOptions;
+}
+
+export interface MaskableOptions {
+  /** Fill behind the source, visible wherever the platform mask does not crop (default: "#ffffff") */
+  backgroundColor?: string;
+  /** Diameter of the circle the source's corners stay inside, as a fraction of the icon (default: 0.8, the maskable safe zone) */
+  safeZone?: number;
+}
+
+export interface MaskableVariantOptions extends MaskableOptions {
+  /** Sizes of the maskable variants in pixels (default: [192, 512]) */
+  sizes?: number[];
+}
+
+/**
+ * Pixel resampling filter applied on `ImageData`, producing identical output
+ * across browsers
+ */
+export type ResampleFilter =
+  "nearest" | "box" | "bilinear" | "mitchell" | "lanczos3";
+
+export interface PngGeneratorOptions {
+  /** Resampling filter (default: browser `drawImage` scaling) */
+  filter?: ResampleFilter;
+  /** Notification badge drawn at the output size */
+  badge?: BadgeOptions;
+  /** Render a maskable variant: the source fitted into the safe zone on a background */
+  maskable?: MaskableOptions;
+}
+
+/** Corner a notification badge is anchored to */
+export type BadgePosition =
+  "top-right" | "top-left" | "bottom-right" | "bottom-left";
+
+export interface BadgeOptions {
+  /** Count to display; omit for a dot, 0 hides the badge */
+  count?: number;
+  /** Highest count shown as-is; larger counts are shown as "<max>+" (default: 99) */
+  max?: number;
+  /** Corner the badge is anchored to (default: "top-right") */
+  position?: BadgePosition;
+  /** Badge fill color (CSS color value, default: "#ef4444") */
+  backgroundColor?: string;
+  /** Count text color (CSS color value, default: "white") */
+  color?: string;
+  /** Font family (CSS font-family value, default: "Helvetica") */
+  fontFamily?: string;
+  /**
+   * Badge height as a fraction of the icon size, or a function of the output size
+   * (default: 0.75 up to 16px, 0.6 up to 32px, 0.45 above)
+   */
+  scale?: number | ((size: number) => number);
+  /** Smallest legible font size in pixels; smaller badges show a dot instead (default: 8) */
+  minFontSize?: number;
+}
+
+/** Bits per pixel for a BMP-encoded ICO entry */
+export type IcoBitDepth = 4 | 8 | 32;
+
+export interface IcoGeneratorOptions {
+  /**
+   * Bit depth for every entry, or a map of size to bit depth for per-size selection.
+   * Sizes missing from the map use 32-bit (default: 32)
+   */
+  bitDepth?: IcoBitDepth | Record<number, IcoBitDepth>;
+  /** Apply Floyd-Steinberg dithering to 4-bit and 8-bit entries (default: true) */
+  dither?: boolean;
+  /** Resampling filter (default: browser `drawImage` scaling) */
+  filter?: ResampleFilter;
+  /** Notification badge drawn on every entry at its own size */
+  badge?: BadgeOptions;
+  /**
+   * Alternative sources keyed by the largest entry size they cover. Each entry
+   * uses the nearest larger key; sizes above every key use the main canvas
+   */
+  sources?: Record<number, FaviconSource>;
+}
+
+/** PNG-backed ICNS element types: ic07-ic09 are 128/256/512, ic10-ic14 are the @2x variants */
+export type IcnsOsType =
+  "ic07" | "ic08" | "ic09" | "ic10" | "ic11" | "ic12" | "ic13" | "ic14";
+
+/** How an ICO entry payload is stored */
+export type IcoEntryEncoding = "bmp" | "png";
+
+export interface IcoEntryInfo {
+  /** Position of the entry in the icon directory */
+  index: number;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Bits per pixel of the stored image */
+  bitDepth: number;
+  /** Palette size from the directory entry (0 for true-color or 256-color entries) */
+  colorCount: number;
+  /** Whether the payload is a BMP with AND mask or an embedded PNG */
+  encoding: IcoEntryEncoding;
+  /** Payload length in bytes */
+  byteSize: number;
+  /** Payload offset from the start of the file */
+  offset: number;
+  /** Cursor hotspot, only present for CUR files */
+  hotspot?: { x: number; y: number };
+}
+
+export interface IcoFileInfo {
+  /** "icon" for ICO files, "cursor" for CUR files */
+  type: "icon" | "cursor";
+  /** Directory entries in file order */
+  entries: IcoEntryInfo[];
+}
+
+export interface DecodedIcoFrame extends IcoEntryInfo {
+  /** RGBA pixel data, row-major from the top-left corner */
+  data: Uint8ClampedArray;
+}
+
+export interface GradientStop {
+  /** Position along the gradient from 0 to 1 */
+  offset: number;
+  /** CSS color value */
+  color: string;
+}
+
+export interface LinearGradientFill {
+  type: "linear";
+  /** Direction in degrees like CSS linear-gradient: 0 = to top, 90 = to right (default: 180) */
+  angle?: number;
+  /** Color stops, at least one */
+  stops: GradientStop[];
+}
+
+export interface RadialGradientFill {
+  type: "radial";
+  /** Horizontal center as a fraction of the width (default: 0.5) */
+  x?: number;
+  /** Vertical center as a fraction of the height (default: 0.5) */
+  y?: number;
+  /** Radius as a fraction of the distance from the center to the farthest corner (default: 1) */
+  radius?: number;
+  /** Color stops, at least one */
+  stops: GradientStop[];
+}
+
+/** Flat CSS color or a gradient spanning the whole icon */
+export type TextIconFill = string | LinearGradientFill | RadialGradientFill;
+
+export interface TextIconBorder {
+  /** Border width in pixels, drawn inside the background shape */
+  width: number;
+  /** Border color or gradient */
+  color: TextIconFill;
 }
 
+export interface TextIconStroke {
+  /** Outline width in pixels; half of it extends outside the glyphs */
+  width: number;
+  /** Outline color or gradient */
+  color: TextIconFill;
+}
+
+export interface TextIconShadow {
+  /** Shadow color (CSS color value) */
+  color: string;
+  /** Blur radius in pixels (default: 0) */
+  blur?: number;
+  /** Horizontal offset in pixels (default: 0) */
+  offsetX?: number;
+  /** Vertical offset in pixels (default: 0) */
+  offsetY?: number;
+}
+
+export interface TextIconDarkColors {
+  /** Background color or gradient in dark mode (default: backgroundColor) */
+  backgroundColor?: TextIconFill;
+  /** Text color or gradient in dark mode (default: fontColor) */
+  fontColor?: TextIconFill;
+  /** Border color or gradient in dark mode (default: border.color) */
+  borderColor?: TextIconFill;
+  /** Text outline color or gradient in dark mode (default: textStroke.color) */
+  textStrokeColor?: TextIconFill;
+}
+
+/** Named background shape of a text icon */
+export type TextIconShapeName =
+  "rounded" | "circle" | "squircle" | "hexagon" | "shield";
+
+/** Named shape, or a Path2D drawn in a 1x1 box */
+export type TextIconShape = TextIconShapeName | Path2D;
+
 export interface TextIconGeneratorOptions {
   /** Canvas width in pixels (default: 128) */
   width?: number;
   /** Canvas height in pixels (default: 128) */
   height?: number;
-  /** Text to display, or null for no text (default: "F") */
+  /** Text to display, with "\n" separating lines, or null for no text (default: "F") */
   text?: string | null;
-  /** Text color (CSS color value, default: "white") */
-  fontColor?: string;
+  /** Text color or gradient (default: "white") */
+  fontColor?: TextIconFill;
   /** Font family (CSS font-family value, default: "Helvetica") */
   fontFamily?: string;
   /** Font size in pixels (default: 64) */
@@ -56,10 +286,230 @@ export interface TextIconGeneratorOptions {
   fontWeight?: string;
   /** Font style (CSS font-style value, default: "normal") */
   fontStyle?: string;
-  /** Corner radius in pixels (0 = square, >= min(width, height)/2 = circle, default: 0) */
+  /** Corner radius in pixels, used by the "rounded" shape (0 = square, >= min(width, height)/2 = circle, default: 0) */
   cornerRadius?: number;
-  /** Background color (CSS color value, default: "black") */
-  backgroundColor?: string;
+  /** Mask for the whole icon; shapes other than "rounded" fill the centered square of the smaller side (default: "rounded") */
+  shape?: TextIconShape;
+  /** Background color or gradient (default: "black") */
+  backgroundColor?: TextIconFill;
+  /** Inner border following the corner radius (default: none) */
+  border?: TextIconBorder;
+  /** Outline drawn around the text (default: none) */
+  textStroke?: TextIconStroke;
+  /** Drop shadow cast by the text (default: none) */
+  textShadow?: TextIconShadow;
+  /** Colors for `prefers-color-scheme: dark`, only used by SVG output (default: none) */
+  darkColors?: TextIconDarkColors;
   /** Device pixel ratio override for canvas backing resolution (default: window.devicePixelRatio or 1) */
   pixelRatio?: number;
+  /** Shrink the text until it fits inside the padding box (default: false) */
+  autoFit?: boolean;
+  /** Inset of the auto-fit box from each edge in pixels (default: 10% of the smaller side) */
+  padding?: number;
+  /** Smallest font size auto-fit may use in pixels (default: 8) */
+  minFontSize?: number;
+  /** Largest font size auto-fit may use in pixels (default: fontSize) */
+  maxFontSize?: number;
+  /** Distance between line baselines as a multiple of the font size (default: 1.2) */
+  lineHeight?: number;
+  /** Extra space between characters in pixels, may be negative (default: 0) */
+  letterSpacing?: number;
+}
+
+/** Why text was drawn with a fallback font */
+export type FontFallbackReason =
+  "timeout" | "error" | "missing" | "unsupported";
+
+export interface FontFallbackEvent {
+  /** CSS font shorthand that was requested */
+  font: string;
+  /** "timeout" if loading took too long, "error" if it failed, "missing" if no such font is available, "unsupported" without a FontFaceSet */
+  reason: FontFallbackReason;
+  /** Error thrown by the FontFaceSet, for the "error" reason */
+  error?: unknown;
+}
+
+export interface FontLoadOptions {
+  /** Maximum time to wait for the font in milliseconds (default: 3000) */
+  fontTimeout?: number;
+  /** Called before drawing when the requested font could not be loaded */
+  onFontFallback?: (event: FontFallbackEvent) => void;
+  /** Font set to load from (default: document.fonts, or self.fonts in Web Workers) */
+  fonts?: FontFaceSet;
+}
+
+export interface MonogramGeneratorOptions extends Omit<
+  TextIconGeneratorOptions,
+  "text"
+> {
+  /** Display name to derive the initials and colors from */
+  name: string;
+  /** Maximum number of initials (default: 2) */
+  maxInitials?: number;
+  /** Hex background colors picked by hashing the name (default: a built-in palette of 12 colors) */
+  palette?: string[];
+}
+
+export interface MonogramColors {
+  /** Background color picked from the palette */
+  backgroundColor: string;
+  /** White or near-black, whichever contrasts more with the background */
+  fontColor: string;
+}
+
+/** Naming preset shared by the CLI and the package exporter */
+export type PackagePreset = "default" | "web-app" | "apple-android" | "custom";
+
+export interface PngOutputSpec {
+  /** Size in pixels (width and height) */
+  size: number;
+  /** File name inside the output directory or archive */
+  filename: string;
+  /** `<link>` relation to emit in the HTML snippet */
+  rel?: "icon" | "apple-touch-icon";
+  /** Whether the image is listed in the web manifest */
+  manifest?: boolean;
+  /** Manifest icon purpose (default: "any") */
+  purpose?: "any" | "maskable";
+}
+
+export interface ManifestOptions {
+  /** Application name */
+  name: string;
+  /** Short application name */
+  shortName: string;
+  /** Splash screen background color */
+  backgroundColor: string;
+  /** Browser UI theme color */
+  themeColor: string;
+  /** Display mode */
+  display: "standalone" | "fullscreen" | "minimal-ui" | "browser";
+  /** URL opened when the app is launched */
+  startUrl: string;
+}
+
+export interface PackageLayout {
+  /** Base file name for the ICO and HTML snippet */
+  baseName: string;
+  /** Sizes in pixels to include in the ICO image */
+  icoSizes: number[];
+  /** Named PNG files to produce */
+  pngOutputs: PngOutputSpec[];
+  /** Whether to include the HTML `<link>` snippet */
+  htmlSnippet: boolean;
+  /** Whether to include a web manifest */
+  manifest: boolean;
+  /** File name of the web manifest */
+  manifestFilename: string;
+  /** Web manifest fields, required when `manifest` is enabled */
+  manifestOptions?: ManifestOptions;
+  /** Background and safe zone of the outputs with the "maskable" purpose */
+  maskableOptions?: Required<MaskableOptions>;
+}
+
+export interface PackageExportOptions {
+  /** Naming preset, matching the CLI `--preset` values (default: "default") */
+  preset?: PackagePreset;
+  /** Base file name for the ICO and HTML snippet (default: "favicon") */
+  baseName?: string;
+  /** PNG sizes for the "custom" preset (default: [16, 32, 150, 180, 192, 512]) */
+  pngSizes?: number[];
+  /** ICO sizes for the "custom" preset (default: [16, 32, 48]) */
+  icoSizes?: number[];
+  /** Web manifest fields; missing fields use the CLI defaults */
+  manifest?: Partial<ManifestOptions>;
+  /** Resampling filter for every generated size (default: browser `drawImage` scaling) */
+  filter?: ResampleFilter;
+  /** Alternative sources keyed by the largest size they cover */
+  sources?: Record<number, FaviconSource>;
+  /** Also write maskable variants listed in the manifest; the background defaults to the manifest background color (default: false) */
+  maskable?: boolean | MaskableVariantOptions;
+}
+
+/**
+ * Contents of a `favium.config.json`, `.js` or `.ts` file. Every field
+ * answers the matching CLI prompt; command line flags take precedence.
+ */
+export interface FaviumConfig {
+  /** Local file, local directory or external image URL, relative to the config file */
+  source?: string;
+  /** ICO/CUR entry to use instead of the largest one */
+  frame?: number;
+  /** Output directory, relative to the config file */
+  output?: string;
+  /** Base file name for the ICO and HTML snippet */
+  baseName?: string;
+  /** Naming preset (default: "default") */
+  preset?: PackagePreset;
+  /** PNG files to write instead of the preset's */
+  pngOutputs?: PngOutputSpec[];
+  /** Sizes in pixels to include in the ICO image instead of the preset's */
+  icoSizes?: number[];
+  /** How the source is fit into square outputs (default: "cover") */
+  fit?: "cover" | "contain";
+  /** Padding color for the "contain" fit (default: "#ffffff") */
+  background?: string;
+  /** Overwrite existing files */
+  overwrite?: boolean;
+  /** Write the HTML `<link>` snippet */
+  html?: boolean;
+  /** Write the web manifest, optionally with some of its fields */
+  manifest?: boolean | Partial<ManifestOptions>;
+  /** File name of the web manifest (default: "manifest.webmanifest") */
+  manifestFilename?: string;
+  /** Also write a macOS .icns file */
+  icns?: boolean;
+  /** Also write maskable variants listed in the manifest */
+  maskable?: boolean | MaskableVariantOptions;
+}
+
+export interface FaviconMarkupOptions {
+  /** Naming preset used to derive file names from bundle sizes (default: "default") */
+  preset?: PackagePreset;
+  /** Base file name for the ICO and sizes without a conventional name (default: "favicon") */
+  baseName?: string;
+  /** Prefix prepended to every file name (default: "./") */
+  basePath?: string;
+  /** Reference the bundle's data URLs instead of file names (default: false) */
+  inline?: boolean;
+  /** Web manifest fields; missing fields use the CLI defaults */
+  manifest?: Partial<ManifestOptions>;
+  /** File name of the web manifest (default: "manifest.webmanifest") */
+  manifestFilename?: string;
+}
+
+/** Attributes of a favicon `<link>` element */
+export interface FaviconLink {
+  /** Link relation */
+  rel: "icon" | "apple-touch-icon" | "manifest";
+  /** MIME type of the image */
+  type?: string;
+  /** Icon size such as "32x32", or "any" */
+  sizes?: string;
+  /** File path or data URL */
+  href: string;
+}
+
+/** Generated bundle, or a resolved package layout such as a CLI plan */
+export type FaviconMarkupSource =
+  GeneratedImageBundle | GeneratedBinaryBundle | PackageLayout;
+
+/** Draws one animation frame on a cleared canvas of the output size */
+export type FaviconFrameRenderer = (
+  context: Canvas2DContext,
+  frame: number,
+  size: number,
+) => void;
+
+export interface FaviconAnimatorOptions {
+  /** Frames per second (default: 10) */
+  fps?: number;
+  /** Icon size in pixels (default: 32) */
+  size?: number;
+  /** Restart a list of canvases after the last frame (default: true) */
+  loop?: boolean;
+  /** Resampling filter for canvas frames (default: browser `drawImage` scaling) */
+  filter?: ResampleFilter;
+  /** Document whose icon is animated (default: the global document) */
+  document?: Document;
 }
@@ -0,0 +1,92 @@
+import { FaviconCanvas } from "../types";
+
+// Multiple of 3 so chunked base64 output can be concatenated without padding
+const BASE64_CHUNK_SIZE = 3 * 0x2000;
+
+/**
+ * Concatenates byte arrays into a single array.
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return result;
+}
+
+/**
+ * Encodes bytes as a base64 data URL in chunks to avoid spreading large arrays.
+ */
+export function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let base64 = "";
+
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK_SIZE) {
+    const chunk = bytes.subarray(i, i + BASE64_CHUNK_SIZE);
+    base64 += btoa(String.fromCharCode(...chunk));
+  }
+
+  return `data:${mimeType};base64,${base64}`;
+}
+
+/**
+ * Decodes the payload of a base64 data URL.
+ * @throws {Error} If the data URL has no payload.
+ */
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const payload = dataUrl.split(",")[1];
+
+  if (!payload) {
+    throw new Error("Failed to serialize PNG data");
+  }
+
+  return Uint8Array.from(atob(payload), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Serializes a canvas to a PNG data URL.
+ * @throws {Error} If the canvas cannot produce data URLs synchronously (OffscreenCanvas).
+ */
+export function canvasToDataUrl(canvas: FaviconCanvas): string {
+  if (!("toDataURL" in canvas)) {
+    throw new Error(
+      "Data URL output requires an HTMLCanvasElement; use the Blob or bytes API with OffscreenCanvas",
+    );
+  }
+
+  return canvas.toDataURL("image/png");
+}
+
+/**
+ * Serializes a canvas to a PNG Blob without going through a data URL.
+ * @throws {Error} If the canvas cannot be serialized.
+ */
+export function canvasToBlob(canvas: FaviconCanvas): Promise<Blob> {
+  if (!("toBlob" in canvas)) {
+    return canvas.convertToBlob({ type: "image/png" });
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error("Failed to serialize PNG data"));
+      }
+    }, "image/png");
+  });
+}
+
+/**
+ * Serializes a canvas to PNG bytes.
+ * @throws {Error} If the canvas cannot be serialized.
+ */
+export async function canvasToBytes(
+  canvas: FaviconCanvas,
+): Promise<Uint8Array> {
+  return new Uint8Array(await (await canvasToBlob(canvas)).arrayBuffer());
+}
@@ -0,0 +1,114 @@
+import {
+  Canvas2DContext,
+  CanvasFactory,
+  FaviconCanvas,
+  FaviconSource,
+} from "../types";
+
+let canvasFactory: CanvasFactory | null = null;
+
+/**
+ * Overrides how intermediate canvases are created, e.g. to supply
+ * OffscreenCanvas instances from a custom pool. Pass null to restore the default.
+ * Resizing a DOM canvas is typed to return a DOM canvas, so factories used
+ * alongside the DOM should return HTMLCanvasElement instances.
+ * @param factory - Function returning a canvas of the requested size, or null.
+ */
+export function setCanvasFactory(factory: CanvasFactory | null): void {
+  canvasFactory = factory;
+}
+
+/**
+ * Creates an intermediate canvas through the configured factory. Without a
+ * factory, a DOM canvas is used when `document` exists and an OffscreenCanvas
+ * otherwise (Web Workers).
+ * @throws {Error} If no canvas implementation is available.
+ */
+export function createCanvas(width: number, height: number): FaviconCanvas {
+  if (canvasFactory) {
+    return canvasFactory(width, height);
+  }
+
+  if (typeof document !== "undefined") {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+
+  throw new Error("No canvas implementation is available");
+}
+
+/**
+ * Checks whether a value is a canvas that can be drawn on.
+ */
+export function isCanvas(value: unknown): value is FaviconCanvas {
+  return (
+    (typeof HTMLCanvasElement !== "undefined" &&
+      value instanceof HTMLCanvasElement) ||
+    (typeof OffscreenCanvas !== "undefined" && value instanceof OffscreenCanvas)
+  );
+}
+
+/**
+ * Checks whether a value can be used as a favicon source.
+ */
+export function isCanvasSource(value: unknown): value is FaviconSource {
+  return (
+    isCanvas(value) ||
+    (typeof ImageBitmap !== "undefined" && value instanceof ImageBitmap)
+  );
+}
+
+/**
+ * Picks the source to draw a size from. Overrides are keyed by the largest
+ * size they cover, so each size uses the nearest larger key; sizes above every
+ * key use the default source.
+ * @param source - Default source.
+ * @param overrides - Alternative sources keyed by size.
+ * @param size - Requested size in pixels.
+ * @throws {RangeError} If a key is not a positive integer.
+ * @throws {TypeError} If an override is not a canvas or bitmap.
+ */
+export function selectSource(
+  source: FaviconSource,
+  overrides: Record<number, FaviconSource> | undefined,
+  size: number,
+): FaviconSource {
+  let selected = source;
+  let selectedSize = Infinity;
+
+  for (const [key, override] of Object.entries(overrides ?? {})) {
+    const coveredSize = Number(key);
+    if (!Number.isInteger(coveredSize) || coveredSize <= 0) {
+      throw new RangeError("Source override sizes must be positive integers");
+    }
+    if (!isCanvasSource(override)) {
+      throw new TypeError(
+        "Source overrides must be HTMLCanvasElement, OffscreenCanvas or ImageBitmap",
+      );
+    }
+    if (coveredSize >= size && coveredSize < selectedSize) {
+      selected = override;
+      selectedSize = coveredSize;
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Returns the 2D context of a DOM or offscreen canvas.
+ * @throws {Error} If the context is unavailable.
+ */
+export function getContext2d(canvas: FaviconCanvas): Canvas2DContext {
+  const ctx = (canvas as HTMLCanvasElement).getContext(
+    "2d",
+  ) as Canvas2DContext | null;
+  if (!ctx) throw new Error("Failed to get 2D context");
+  return ctx;
+}
@@ -0,0 +1,63 @@
+import { FontFallbackEvent, FontLoadOptions } from "../types";
+
+/**
+ * Returns the document's font set, or the worker's in Web Workers.
+ */
+function getDefaultFontSet(): FontFaceSet | undefined {
+  if (typeof document !== "undefined" && document.fonts) {
+    return document.fonts;
+  }
+  return (globalThis as { fonts?: FontFaceSet }).fonts;
+}
+
+/**
+ * Waits until a font is ready for drawing, so canvas text is not painted
+ * with a fallback font while a web font is still loading. Never rejects for
+ * loading problems; they are reported through `onFontFallback` instead.
+ * @param font - CSS font shorthand, such as "normal 600 64px Inter"
+ * @param text - Text that will be drawn, used to pick unicode-range subsets
+ * @param options - Timeout, fallback callback and font set
+ * @returns True if the font loaded, false if a fallback font will be used
+ * @throws {RangeError} If the timeout is invalid
+ */
+export async function loadFont(
+  font: string,
+  text: string,
+  options: FontLoadOptions = {},
+): Promise<boolean> {
+  const { fontTimeout = 3000, onFontFallback } = options;
+  if (!Number.isFinite(fontTimeout) || fontTimeout < 0) {
+    throw new RangeError("Font timeout must be a non-negative number");
+  }
+
+  const fallback = (event: Omit<FontFallbackEvent, "font">): boolean => {
+    onFontFallback?.({ font, ...event });
+    return false;
+  };
+
+  const fonts = options.fonts ?? getDefaultFontSet();
+  if (!fonts || typeof fonts.load !== "function") {
+    return fallback({ reason: "unsupported" });
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<"timeout">((resolve) => {
+    timer = setTimeout(() => resolve("timeout"), fontTimeout);
+  });
+
+  try {
+    const result = await Promise.race([fonts.load(font, text), timeout]);
+    if (result === "timeout") return fallback({ reason: "timeout" });
+
+    // load() also resolves with no faces for a misspelled or undeclared
+    // family, so ask whether the font is usable now; system fonts are
+    if (typeof fonts.check === "function" && !fonts.check(font, text)) {
+      return fallback({ reason: "missing" });
+    }
+    return true;
+  } catch (error) {
+    return fallback({ reason: "error", error });
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,274 @@
+interface ColorBox {
+  colors: number[];
+  counts: number[];
+}
+
+export interface QuantizedImage {
+  /** Palette entries as packed RGB triples */
+  palette: Uint8Array;
+  /** Palette index for every pixel, row-major from the top-left corner */
+  indices: Uint8Array;
+}
+
+/**
+ * Reduces RGBA pixel data to a small palette using median cut, with optional
+ * Floyd-Steinberg error diffusion.
+ */
+class Quantize {
+  private readonly data: Uint8ClampedArray;
+  private readonly width: number;
+  private readonly height: number;
+
+  /**
+   * Creates an instance of Quantize.
+   * @param data - RGBA pixel data, row-major from the top-left corner.
+   * @param width - Image width in pixels.
+   * @param height - Image height in pixels.
+   * @throws {RangeError} If the data length does not match the dimensions.
+   */
+  constructor(data: Uint8ClampedArray, width: number, height: number) {
+    if (data.length !== width * height * 4) {
+      throw new RangeError("Pixel data does not match the image dimensions");
+    }
+    this.data = data;
+    this.width = width;
+    this.height = height;
+  }
+
+  /**
+   * Builds a palette of at most `maxColors` entries and maps every pixel to it.
+   * Alpha is ignored; callers are expected to handle transparency separately.
+   * @param maxColors - Maximum palette size (1-256).
+   * @param dither - Whether to diffuse quantization error to neighbouring pixels.
+   * @returns The palette and per-pixel indices.
+   * @throws {RangeError} If maxColors is outside 1-256.
+   */
+  public quantize(maxColors: number, dither = true): QuantizedImage {
+    if (!Number.isInteger(maxColors) || maxColors < 1 || maxColors > 256) {
+      throw new RangeError("Palette size must be an integer between 1 and 256");
+    }
+
+    const histogram = this.buildHistogram();
+    const palette = this.buildPalette(histogram, maxColors);
+    const indices = this.mapPixels(palette, dither);
+
+    return { palette, indices };
+  }
+
+  /**
+   * Counts occurrences of each opaque-enough RGB color.
+   */
+  private buildHistogram(): Map<number, number> {
+    const histogram = new Map<number, number>();
+
+    for (let i = 0; i < this.data.length; i += 4) {
+      if (this.data[i + 3] < 128) continue;
+      const key =
+        (this.data[i] << 16) | (this.data[i + 1] << 8) | this.data[i + 2];
+      histogram.set(key, (histogram.get(key) ?? 0) + 1);
+    }
+
+    return histogram;
+  }
+
+  /**
+   * Splits the color space with median cut until the palette is full.
+   */
+  private buildPalette(
+    histogram: Map<number, number>,
+    maxColors: number,
+  ): Uint8Array {
+    if (histogram.size === 0) {
+      return new Uint8Array(3);
+    }
+
+    if (histogram.size <= maxColors) {
+      const palette = new Uint8Array(histogram.size * 3);
+      let offset = 0;
+      for (const key of histogram.keys()) {
+        palette[offset++] = (key >> 16) & 0xff;
+        palette[offset++] = (key >> 8) & 0xff;
+        palette[offset++] = key & 0xff;
+      }
+      return palette;
+    }
+
+    const boxes: ColorBox[] = [
+      { colors: [...histogram.keys()], counts: [...histogram.values()] },
+    ];
+
+    while (boxes.length < maxColors) {
+      let target = -1;
+      let targetScore = 0;
+
+      for (let i = 0; i < boxes.length; i++) {
+        if (boxes[i].colors.length < 2) continue;
+        const { range } = this.widestChannel(boxes[i]);
+        const population = boxes[i].counts.reduce((sum, n) => sum + n, 0);
+        const score = range * population;
+        if (score > targetScore) {
+          target = i;
+          targetScore = score;
+        }
+      }
+
+      if (target === -1) break;
+
+      const [left, right] = this.splitBox(boxes[target]);
+      boxes.splice(target, 1, left, right);
+    }
+
+    const palette = new Uint8Array(boxes.length * 3);
+    boxes.forEach((box, index) => {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let total = 0;
+      for (let i = 0; i < box.colors.length; i++) {
+        const color = box.colors[i];
+        const count = box.counts[i];
+        r += ((color >> 16) & 0xff) * count;
+        g += ((color >> 8) & 0xff) * count;
+        b += (color & 0xff) * count;
+        total += count;
+      }
+      palette[index * 3] = Math.round(r / total);
+      palette[index * 3 + 1] = Math.round(g / total);
+      palette[index * 3 + 2] = Math.round(b / total);
+    });
+
+    return palette;
+  }
+
+  /**
+   * Finds the RGB channel with the widest spread within a box.
+   */
+  private widestChannel(box: ColorBox): { shift: number; range: number } {
+    let best = { shift: 16, range: -1 };
+
+    for (const shift of [16, 8, 0]) {
+      let min = 255;
+      let max = 0;
+      for (const color of box.colors) {
+        const value = (color >> shift) & 0xff;
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+      if (max - min > best.range) {
+        best = { shift, range: max - min };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Splits a box at the population median of its widest channel.
+   */
+  private splitBox(box: ColorBox): [ColorBox, ColorBox] {
+    const { shift } = this.widestChannel(box);
+    const order = box.colors
+      .map((_, index) => index)
+      .sort(
+        (left, right) =>
+          ((box.colors[left] >> shift) & 0xff) -
+          ((box.colors[right] >> shift) & 0xff),
+      );
+    const population = box.counts.reduce((sum, n) => sum + n, 0);
+
+    let running = 0;
+    let cut = 1;
+    for (let i = 0; i < order.length - 1; i++) {
+      running += box.counts[order[i]];
+      cut = i + 1;
+      if (running >= population / 2) break;
+    }
+
+    const pick = (indices: number[]): ColorBox => ({
+      colors: indices.map((index) => box.colors[index]),
+      counts: indices.map((index) => box.counts[index]),
+    });
+
+    return [pick(order.slice(0, cut)), pick(order.slice(cut))];
+  }
+
+  /**
+   * Maps every pixel to its nearest palette entry.
+   */
+  private mapPixels(palette: Uint8Array, dither: boolean): Uint8Array {
+    const { width, height } = this;
+    const indices = new Uint8Array(width * height);
+    const cache = new Map<number, number>();
+    const nearest = (r: number, g: number, b: number): number => {
+      const key = (r << 16) | (g << 8) | b;
+      const cached = cache.get(key);
+      if (cached !== undefined) return cached;
+
+      let bestIndex = 0;
+      let bestDistance = Infinity;
+      for (let i = 0; i < palette.length; i += 3) {
+        const dr = palette[i] - r;
+        const dg = palette[i + 1] - g;
+        const db = palette[i + 2] - b;
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          bestIndex = i / 3;
+        }
+      }
+
+      cache.set(key, bestIndex);
+      return bestIndex;
+    };
+
+    if (!dither) {
+      for (let p = 0; p < indices.length; p++) {
+        const i = p * 4;
+        indices[p] = nearest(this.data[i], this.data[i + 1], this.data[i + 2]);
+      }
+      return indices;
+    }
+
+    const working = Float32Array.from(this.data);
+    const diffuse = (x: number, y: number, error: number[], weight: number) => {
+      if (x < 0 || x >= width || y >= height) return;
+      const i = (y * width + x) * 4;
+      if (this.data[i + 3] < 128) return;
+      working[i] += error[0] * weight;
+      working[i + 1] += error[1] * weight;
+      working[i + 2] += error[2] * weight;
+    };
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const i = p * 4;
+        const r = clampChannel(working[i]);
+        const g = clampChannel(working[i + 1]);
+        const b = clampChannel(working[i + 2]);
+        const index = nearest(r, g, b);
+        indices[p] = index;
+
+        if (this.data[i + 3] < 128) continue;
+
+        const error = [
+          r - palette[index * 3],
+          g - palette[index * 3 + 1],
+          b - palette[index * 3 + 2],
+        ];
+        diffuse(x + 1, y, error, 7 / 16);
+        diffuse(x - 1, y + 1, error, 3 / 16);
+        diffuse(x, y + 1, error, 5 / 16);
+        diffuse(x + 1, y + 1, error, 1 / 16);
+      }
+    }
+
+    return indices;
+  }
+}
+
+function clampChannel(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+export default Quantize;
@@ -1,13 +1,24 @@
-class Resize {
-  private canvas: HTMLCanvasElement;
+import {
+  FaviconCanvas,
+  FaviconSource,
+  ResampleFilter,
+  ResizedCanvas,
+} from "../types";
+import { createCanvas, getContext2d, isCanvasSource } from "./canvas";
+import Resample, { RESAMPLE_FILTERS } from "./resample";
+
+class Resize<T extends FaviconSource = HTMLCanvasElement> {
+  private canvas: FaviconSource;
   /**
    * Creates an instance of Resize.
-   * @param canvas - The source canvas element to resize.
-   * @throws {TypeError} If the parameter is not an HTMLCanvasElement.
+   * @param canvas - The source canvas or bitmap to resize.
+   * @throws {TypeError} If the parameter is not an HTMLCanvasElement, OffscreenCanvas or ImageBitmap.
    */
-  constructor(canvas: HTMLCanvasElement) {
-    if (!(canvas instanceof HTMLCanvasElement)) {
-      throw new TypeError("Parameter must be an HTMLCanvasElement");
+  constructor(canvas: T) {
+    if (!isCanvasSource(canvas)) {
+      throw new TypeError(
+        "Parameter must be an HTMLCanvasElement, OffscreenCanvas or ImageBitmap",
+      );
     }
     this.canvas = canvas;
   }
@@ -16,10 +27,16 @@ class Resize {
    * Generates a resized canvas element with specified dimensions.
    * @param width - The desired width of the canvas.
    * @param height - The desired height of the canvas.
-   * @returns The resized canvas element.
-   * @throws {RangeError} If width or height is not a positive integer.
+   * @param filter - Resampling filter applied on the pixel data. When omitted,
+   * the canvas is progressively halved with `drawImage`.
+   * @returns The resized canvas: an HTMLCanvasElement for DOM sources.
+   * @throws {RangeError} If width or height is not a positive integer, or the filter is unknown.
    */
-  public resize(width: number, height: number): HTMLCanvasElement {
+  public resize(
+    width: number,
+    height: number,
+    filter?: ResampleFilter,
+  ): ResizedCanvas<T> {
     if (!Number.isInteger(width) || !Number.isInteger(height)) {
       throw new RangeError("Width and height must be integers");
     }
@@ -27,6 +44,10 @@ class Resize {
       throw new RangeError("Width and height must be positive");
     }
 
+    if (filter !== undefined) {
+      return this.resample(width, height, filter) as ResizedCanvas<T>;
+    }
+
     while (this.canvas.width / 2 >= width && this.canvas.height / 2 >= height) {
       this._resize(
         Math.max(width, Math.floor(this.canvas.width / 2)),
@@ -34,24 +55,73 @@ class Resize {
       );
     }
 
-    if (this.canvas.width !== width || this.canvas.height !== height) {
+    // Bitmaps cannot be drawn on, so always copy them onto a canvas
+    if (
+      this.canvas.width !== width ||
+      this.canvas.height !== height ||
+      !("getContext" in this.canvas)
+    ) {
       this._resize(width, height);
     }
 
-    return this.canvas;
+    return this.canvas as ResizedCanvas<T>;
+  }
+
+  /**
+   * Resizes the pixel data with the given filter instead of relying on the
+   * browser's `drawImage` scaling.
+   */
+  private resample(
+    width: number,
+    height: number,
+    filter: ResampleFilter,
+  ): FaviconCanvas {
+    if (!RESAMPLE_FILTERS.includes(filter)) {
+      throw new RangeError(
+        `Resample filter must be one of ${RESAMPLE_FILTERS.join(", ")}`,
+      );
+    }
+
+    const { width: sourceWidth, height: sourceHeight } = this.canvas;
+
+    // Bitmaps cannot be read directly, so copy them onto a canvas first
+    if (!("getContext" in this.canvas)) {
+      this._resize(sourceWidth, sourceHeight);
+    }
+
+    const source = this.canvas as FaviconCanvas;
+    if (sourceWidth === width && sourceHeight === height) {
+      return source;
+    }
+
+    const { data } = getContext2d(source).getImageData(
+      0,
+      0,
+      sourceWidth,
+      sourceHeight,
+    );
+    const pixels = new Resample(data, sourceWidth, sourceHeight).resample(
+      width,
+      height,
+      filter,
+    );
+
+    const canvas = createCanvas(width, height);
+    const context = getContext2d(canvas);
+    const imageData = context.createImageData(width, height);
+    imageData.data.set(pixels);
+    context.putImageData(imageData, 0, 0);
+    this.canvas = canvas;
+
+    return canvas;
   }
 
   /**
    * Simple resize of a canvas element.
    */
   private _resize(width: number, height: number): void {
-    const canvas = document.createElement("canvas");
-    const resizedContext = canvas.getContext("2d");
-    if (!resizedContext) {
-      throw new Error("Failed to get 2D context");
-    }
-    canvas.width = width;
-    canvas.height = height;
+    const canvas = createCanvas(width, height);
+    const resizedContext = getContext2d(canvas);
     resizedContext.drawImage(this.canvas, 0, 0, width, height);
     this.canvas = canvas;
   }
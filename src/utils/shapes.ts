@@ -0,0 +1,154 @@
+import { Canvas2DContext, TextIconShapeName } from "../types";
+
+/** Path command in a 1x1 box: move, line, cubic curve or close */
+export type ShapeCommand =
+  | ["M", number, number]
+  | ["L", number, number]
+  | ["C", number, number, number, number, number, number]
+  | ["Z"];
+
+/** Named shapes, in the order they are listed in error messages */
+export const TEXT_ICON_SHAPES: TextIconShapeName[] = [
+  "rounded",
+  "circle",
+  "squircle",
+  "hexagon",
+  "shield",
+];
+
+// Control point distance that makes four cubic curves approximate a circle
+const CIRCLE_KAPPA = 0.5522847498;
+
+// Superellipse exponent close to the iOS app icon outline
+const SQUIRCLE_EXPONENT = 5;
+const SQUIRCLE_SEGMENTS = 128;
+
+/** Rounds away floating-point noise so vertices on the box edges are exact */
+const snap = (value: number): number => Math.round(value * 1e9) / 1e9;
+
+/**
+ * Returns the outline of a named shape in a 1x1 box. "rounded" depends on
+ * the corner radius and is drawn by the text icon generator itself.
+ * @param shape - Named shape other than "rounded"
+ * @returns Path commands in unit coordinates
+ */
+export function getShapeCommands(
+  shape: Exclude<TextIconShapeName, "rounded">,
+): ShapeCommand[] {
+  switch (shape) {
+    case "circle": {
+      const k = 0.5 * CIRCLE_KAPPA;
+      return [
+        ["M", 1, 0.5],
+        ["C", 1, 0.5 + k, 0.5 + k, 1, 0.5, 1],
+        ["C", 0.5 - k, 1, 0, 0.5 + k, 0, 0.5],
+        ["C", 0, 0.5 - k, 0.5 - k, 0, 0.5, 0],
+        ["C", 0.5 + k, 0, 1, 0.5 - k, 1, 0.5],
+        ["Z"],
+      ];
+    }
+    case "squircle": {
+      // Sampled superellipse |x|^n + |y|^n = 1
+      const commands: ShapeCommand[] = [];
+      for (let i = 0; i < SQUIRCLE_SEGMENTS; i++) {
+        const angle = (2 * Math.PI * i) / SQUIRCLE_SEGMENTS;
+        const cos = snap(Math.cos(angle));
+        const sin = snap(Math.sin(angle));
+        const x =
+          0.5 + 0.5 * Math.sign(cos) * Math.abs(cos) ** (2 / SQUIRCLE_EXPONENT);
+        const y =
+          0.5 + 0.5 * Math.sign(sin) * Math.abs(sin) ** (2 / SQUIRCLE_EXPONENT);
+        commands.push([i === 0 ? "M" : "L", snap(x), snap(y)]);
+      }
+      commands.push(["Z"]);
+      return commands;
+    }
+    case "hexagon": {
+      // Pointy-top hexagon touching the top and bottom edges
+      const commands: ShapeCommand[] = [];
+      for (let i = 0; i < 6; i++) {
+        const angle = ((-90 + 60 * i) * Math.PI) / 180;
+        commands.push([
+          i === 0 ? "M" : "L",
+          snap(0.5 + 0.5 * Math.cos(angle)),
+          snap(0.5 + 0.5 * Math.sin(angle)),
+        ]);
+      }
+      commands.push(["Z"]);
+      return commands;
+    }
+    case "shield":
+      return [
+        ["M", 0.1, 0.04],
+        ["L", 0.9, 0.04],
+        ["L", 0.9, 0.45],
+        ["C", 0.9, 0.7, 0.74, 0.87, 0.5, 0.98],
+        ["C", 0.26, 0.87, 0.1, 0.7, 0.1, 0.45],
+        ["Z"],
+      ];
+  }
+}
+
+/**
+ * Starts a new path on the context with the commands scaled to a square.
+ * @param ctx - Canvas 2D rendering context
+ * @param commands - Path commands in unit coordinates
+ * @param x - Left edge of the square in logical pixels
+ * @param y - Top edge of the square in logical pixels
+ * @param size - Side length of the square in logical pixels
+ */
+export function traceShape(
+  ctx: Canvas2DContext,
+  commands: ShapeCommand[],
+  x: number,
+  y: number,
+  size: number,
+): void {
+  ctx.beginPath();
+  for (const command of commands) {
+    const [type, ...values] = command;
+    const points = values.map((value, index) =>
+      index % 2 === 0 ? x + value * size : y + value * size,
+    );
+
+    if (type === "M") ctx.moveTo(points[0], points[1]);
+    else if (type === "L") ctx.lineTo(points[0], points[1]);
+    else if (type === "C") {
+      ctx.bezierCurveTo(
+        points[0],
+        points[1],
+        points[2],
+        points[3],
+        points[4],
+        points[5],
+      );
+    } else ctx.closePath();
+  }
+}
+
+/**
+ * Converts commands scaled to a square into SVG path data.
+ * @param commands - Path commands in unit coordinates
+ * @param x - Left edge of the square in pixels
+ * @param y - Top edge of the square in pixels
+ * @param size - Side length of the square in pixels
+ * @returns The `d` attribute value, with coordinates rounded to three decimals
+ */
+export function toPathData(
+  commands: ShapeCommand[],
+  x: number,
+  y: number,
+  size: number,
+): string {
+  return commands
+    .map(([type, ...values]) =>
+      [
+        type,
+        ...values.map((value, index) => {
+          const offset = index % 2 === 0 ? x : y;
+          return String(Math.round((offset + value * size) * 1000) / 1000);
+        }),
+      ].join(" "),
+    )
+    .join(" ");
+}
@@ -0,0 +1,15 @@
+/**
+ * Splits text into user-perceived characters, keeping emoji sequences and
+ * combining marks whole.
+ * @param text - Text to split
+ * @returns Graphemes in order, or code points where Intl.Segmenter is unavailable
+ */
+export function splitGraphemes(text: string): string[] {
+  if (typeof Intl !== "undefined" && "Segmenter" in Intl) {
+    return Array.from(
+      new Intl.Segmenter(undefined, { granularity: "grapheme" }).segment(text),
+      ({ segment }) => segment,
+    );
+  }
+  return Array.from(text);
+}
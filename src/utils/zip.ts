@@ -0,0 +1,150 @@
+import { concatBytes } from "./binary";
+
+interface ZipEntry {
+  name: Uint8Array;
+  data: Uint8Array;
+  crc: number;
+  offset: number;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Writes uncompressed (stored) ZIP archives. PNG and ICO payloads are already
+ * compressed, so deflating them again would only cost time.
+ */
+class Zip {
+  private readonly entries: ZipEntry[] = [];
+  private readonly names = new Set<string>();
+  private readonly dosTime: number;
+  private readonly dosDate: number;
+  private offset = 0;
+
+  /**
+   * Creates an instance of Zip.
+   * @param modified - Modification time stored for every entry (default: now).
+   */
+  constructor(modified: Date = new Date()) {
+    const year = Math.max(1980, modified.getFullYear());
+    this.dosTime =
+      (modified.getHours() << 11) |
+      (modified.getMinutes() << 5) |
+      (modified.getSeconds() >> 1);
+    this.dosDate =
+      ((year - 1980) << 9) |
+      ((modified.getMonth() + 1) << 5) |
+      modified.getDate();
+  }
+
+  /**
+   * Adds a file to the archive.
+   * @param name - Path of the file inside the archive.
+   * @param data - File contents; strings are encoded as UTF-8.
+   * @throws {Error} If a file with the same name was already added.
+   */
+  public add(name: string, data: Uint8Array | string): void {
+    if (this.names.has(name)) {
+      throw new Error(`Duplicate ZIP entry: ${name}`);
+    }
+    this.names.add(name);
+
+    const encoder = new TextEncoder();
+    const bytes = typeof data === "string" ? encoder.encode(data) : data;
+    const entry: ZipEntry = {
+      name: encoder.encode(name),
+      data: bytes,
+      crc: crc32(bytes),
+      offset: this.offset,
+    };
+
+    this.entries.push(entry);
+    this.offset += 30 + entry.name.length + bytes.length;
+  }
+
+  /**
+   * Serializes the archive.
+   * @returns The ZIP file contents.
+   */
+  public toBytes(): Uint8Array {
+    const chunks: Uint8Array[] = [];
+
+    for (const entry of this.entries) {
+      const header = new Uint8Array(30);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, 0x04034b50, true); // Local file header signature
+      this.writeCommonFields(view, 4, entry);
+      chunks.push(header, entry.name, entry.data);
+    }
+
+    let directorySize = 0;
+    for (const entry of this.entries) {
+      const header = new Uint8Array(46);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, 0x02014b50, true); // Central directory signature
+      view.setUint16(4, 20, true); // Version made by
+      this.writeCommonFields(view, 6, entry);
+      view.setUint32(42, entry.offset, true); // Local header offset
+      chunks.push(header, entry.name);
+      directorySize += header.length + entry.name.length;
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true); // End of central directory signature
+    view.setUint16(8, this.entries.length, true);
+    view.setUint16(10, this.entries.length, true);
+    view.setUint32(12, directorySize, true);
+    view.setUint32(16, this.offset, true);
+    chunks.push(end);
+
+    return concatBytes(chunks);
+  }
+
+  /**
+   * Serializes the archive as a Blob of type application/zip.
+   */
+  public toBlob(): Blob {
+    return new Blob([this.toBytes() as BlobPart], { type: "application/zip" });
+  }
+
+  /**
+   * Writes the fields shared by local and central headers, starting at the
+   * "version needed" field.
+   */
+  private writeCommonFields(
+    view: DataView,
+    offset: number,
+    entry: ZipEntry,
+  ): void {
+    view.setUint16(offset, 20, true); // Version needed to extract
+    view.setUint16(offset + 2, 0x0800, true); // UTF-8 file names
+    view.setUint16(offset + 4, 0, true); // Stored
+    view.setUint16(offset + 6, this.dosTime, true);
+    view.setUint16(offset + 8, this.dosDate, true);
+    view.setUint32(offset + 10, entry.crc, true);
+    view.setUint32(offset + 14, entry.data.length, true); // Compressed size
+    view.setUint32(offset + 18, entry.data.length, true); // Uncompressed size
+    view.setUint16(offset + 22, entry.name.length, true);
+  }
+}
+
+export default Zip;
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import Animator from "../src/dom/animator";
+import LinkManager from "../src/dom/links";
+import PngGenerator from "../src/generators/png";
+import { createCanvas } from "./support/fake-canvas";
+import {
+  createDocument,
+  getListenerCount,
+  readHead,
+  setVisibilityState,
+} from "./support/fake-dom";
+
+describe("Animator", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("renders frames at the target fps", () => {
+    const document = createDocument();
+    const render = vi.fn();
+    const apply = vi.spyOn(LinkManager.prototype, "apply");
+    const animator = new Animator(render, { fps: 4, size: 16, document });
+
+    animator.start();
+    vi.advanceTimersByTime(500);
+
+    expect(render.mock.calls.map(([, frame, size]) => [frame, size])).toEqual([
+      [0, 16],
+      [1, 16],
+      [2, 16],
+    ]);
+    expect(apply).toHaveBeenCalledTimes(3);
+    expect(readHead(document)).toHaveLength(1);
+    animator.stop();
+  });
+
+  it("clears the frame canvas before each render", () => {
+    const contexts: CanvasRenderingContext2D[] = [];
+    const animator = new Animator(
+      (context) => contexts.push(context as CanvasRenderingContext2D),
+      { document: createDocument() },
+    );
+    const clearRect = vi.spyOn(
+      Object.getPrototypeOf(createCanvas().getContext("2d")),
+      "clearRect",
+    );
+
+    animator.start();
+    vi.advanceTimersByTime(100);
+    animator.stop();
+
+    expect(contexts).toHaveLength(2);
+    expect(contexts[0]).toBe(contexts[1]);
+    expect(clearRect).toHaveBeenCalledWith(0, 0, 32, 32);
+  });
+
+  it("pauses while the document is hidden", () => {
+    const document = createDocument();
+    const render = vi.fn();
+    const animator = new Animator(render, { fps: 10, document });
+
+    animator.start();
+    setVisibilityState(document, "hidden");
+    vi.advanceTimersByTime(1000);
+
+    expect(render).toHaveBeenCalledTimes(1);
+    expect(animator.isRunning).toBe(true);
+
+    setVisibilityState(document, "visible");
+    vi.advanceTimersByTime(100);
+
+    expect(render.mock.calls.map(([, frame]) => frame)).toEqual([0, 1, 2]);
+    animator.stop();
+  });
+
+  it("renders each canvas frame once and loops", () => {
+    const generate = vi.spyOn(PngGenerator.prototype, "generate");
+    const frames = [createCanvas(64, 64), createCanvas(48, 48)];
+    const animator = new Animator(frames, {
+      fps: 10,
+      document: createDocument(),
+    });
+
+    animator.start();
+    vi.advanceTimersByTime(300);
+    animator.stop();
+
+    expect(generate).toHaveBeenCalledTimes(2);
+    expect(generate).toHaveBeenCalledWith(32, { filter: undefined });
+  });
+
+  it("stops after the last canvas when looping is disabled", () => {
+    const frames = [createCanvas(64, 64), createCanvas(64, 64)];
+    const animator = new Animator(frames, {
+      loop: false,
+      document: createDocument(),
+    });
+
+    animator.start();
+    vi.advanceTimersByTime(1000);
+
+    expect(animator.isRunning).toBe(false);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("restores the original icon and detaches listeners on stop", () => {
+    const document = createDocument([
+      ["link", { rel: "icon", href: "/favicon.ico" }],
+    ]);
+    const animator = new Animator(vi.fn(), { document });
+
+    animator.start();
+    animator.stop();
+
+    expect(readHead(document)).toEqual([
+      '<link rel="icon" href="/favicon.ico">',
+    ]);
+    expect(getListenerCount(document, "visibilitychange")).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("stops and restores the icon when a frame fails to render", () => {
+    const document = createDocument([
+      ["link", { rel: "icon", href: "/favicon.ico" }],
+    ]);
+    const render = vi.fn((_context: unknown, frame: number) => {
+      if (frame === 1) throw new Error("Broken frame");
+    });
+    const animator = new Animator(render, { document });
+
+    animator.start();
+    expect(() => vi.advanceTimersByTime(100)).toThrow("Broken frame");
+
+    expect(animator.isRunning).toBe(false);
+    expect(readHead(document)).toEqual([
+      '<link rel="icon" href="/favicon.ico">',
+    ]);
+    expect(getListenerCount(document, "visibilitychange")).toBe(0);
+    expect(vi.getTimerCount()).toBe(0);
+
+    // A restart begins again from the first frame
+    animator.start();
+    expect(animator.isRunning).toBe(true);
+    animator.stop();
+  });
+
+  it("rejects invalid frames and options", () => {
+    const document = createDocument();
+
+    expect(() => new Animator([], { document })).toThrow(RangeError);
+    expect(() => new Animator([{}] as never, { document })).toThrow(TypeError);
+    expect(() => new Animator(vi.fn(), { fps: 0, document })).toThrow(
+      RangeError,
+    );
+    expect(() => new Animator(vi.fn(), { size: 1.5, document })).toThrow(
+      RangeError,
+    );
+  });
+});
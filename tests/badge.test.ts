@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import Badge from "../src/composer/badge";
+import IcoGenerator from "../src/generators/ico";
+import PngGenerator from "../src/generators/png";
+import { createCanvas, getCanvasOperations } from "./support/fake-canvas";
+
+function textOperations(canvas: HTMLCanvasElement | OffscreenCanvas) {
+  return getCanvasOperations(canvas).filter((operation) =>
+    operation.startsWith("fillText"),
+  );
+}
+
+describe("Badge", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("draws the count on a copy without mutating the source", () => {
+    const source = createCanvas(64, 64);
+
+    const badged = new Badge({ count: 3 }).composite(source);
+
+    expect(badged).not.toBe(source);
+    expect(getCanvasOperations(source)).toEqual([]);
+    expect(getCanvasOperations(badged)[0]).toBe("drawImage:64x64->64x64");
+    expect(textOperations(badged)).toEqual(["fillText:3@49.5,14.5"]);
+  });
+
+  it("caps large counts at the configured max", () => {
+    expect(new Badge({ count: 120 }).label).toBe("99+");
+    expect(new Badge({ count: 12, max: 9 }).label).toBe("9+");
+    expect(new Badge({ count: 9, max: 9 }).label).toBe("9");
+    expect(new Badge().label).toBeNull();
+  });
+
+  it("draws a dot without a count and nothing for zero", () => {
+    const source = createCanvas(32, 32);
+
+    const dot = new Badge().composite(source);
+    const empty = new Badge({ count: 0 }).composite(source);
+
+    expect(getCanvasOperations(dot)).toContain("fill");
+    expect(textOperations(dot)).toEqual([]);
+    expect(getCanvasOperations(empty)).toEqual(["drawImage:32x32->32x32"]);
+  });
+
+  it("anchors the badge to the requested corner", () => {
+    const badged = new Badge({ position: "bottom-left" }).composite(
+      createCanvas(64, 64),
+    );
+
+    // Dot height: round(round(64 * 0.45) * 0.7) = 20
+    expect(getCanvasOperations(badged)).toContain("moveTo:10,44");
+  });
+
+  it("falls back to a dot when the count would be illegible", () => {
+    const badged = new Badge({ count: 5, scale: 0.4 }).composite(
+      createCanvas(16, 16),
+    );
+
+    expect(textOperations(badged)).toEqual([]);
+  });
+
+  it("scales the badge per output size", () => {
+    const scale = vi.fn(() => 0.5);
+    const badge = new Badge({ count: 1, scale });
+
+    badge.composite(createCanvas(16, 16));
+    badge.composite(createCanvas(48, 48));
+
+    expect(scale.mock.calls).toEqual([[16], [48]]);
+  });
+
+  it("rejects invalid options", () => {
+    expect(() => new Badge({ count: -1 })).toThrow(RangeError);
+    expect(() => new Badge({ max: 0 })).toThrow(RangeError);
+    expect(() => new Badge({ scale: 2 })).toThrow(RangeError);
+    expect(() => new Badge({ position: "center" as never })).toThrow(
+      RangeError,
+    );
+  });
+
+  it("is drawn at every PNG and ICO output size", async () => {
+    const composite = vi.spyOn(Badge.prototype, "composite");
+    const canvas = createCanvas(256, 256);
+
+    new IcoGenerator(canvas).generate([16, 32], { badge: { count: 4 } });
+    await new PngGenerator(canvas).generateBytes(48, { badge: { count: 4 } });
+
+    const sizes = composite.mock.results.map(
+      (result) => (result.value as HTMLCanvasElement).width,
+    );
+    expect(sizes).toEqual([16, 32, 48]);
+    expect(getCanvasOperations(canvas)).toEqual([]);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import FaviconComposer from "../src/composer/favicon";
+import TextIconGenerator from "../src/generators/center";
+import IcoGenerator from "../src/generators/ico";
+import MonogramGenerator from "../src/generators/monogram";
+import PngGenerator from "../src/generators/png";
+import {
+  createCanvas as createSurface,
+  isCanvasSource,
+  setCanvasFactory,
+} from "../src/utils/canvas";
+import Resize from "../src/utils/resize";
+import {
+  createCanvas,
+  createImageBitmap,
+  createOffscreenCanvas,
+  getCanvasOperations,
+  readPngMetaFromBytes,
+  withoutDocument,
+} from "./support/fake-canvas";
+
+describe("canvas sources", () => {
+  afterEach(() => {
+    setCanvasFactory(null);
+  });
+
+  it("accepts DOM canvases, offscreen canvases and bitmaps", () => {
+    expect(isCanvasSource(createCanvas())).toBe(true);
+    expect(isCanvasSource(createOffscreenCanvas())).toBe(true);
+    expect(isCanvasSource(createImageBitmap())).toBe(true);
+    expect(isCanvasSource({})).toBe(false);
+  });
+
+  it("creates offscreen canvases when there is no document", async () => {
+    const surface = await withoutDocument(() => createSurface(16, 8));
+
+    expect(surface).toBeInstanceOf(OffscreenCanvas);
+    expect(surface.width).toBe(16);
+    expect(surface.height).toBe(8);
+  });
+
+  it("creates intermediate canvases through a custom factory", () => {
+    const factory = vi.fn((width: number, height: number) =>
+      createOffscreenCanvas(width, height),
+    );
+    setCanvasFactory(factory);
+
+    const resized = new Resize(createCanvas(64, 64)).resize(16, 16);
+
+    expect(resized).toBeInstanceOf(OffscreenCanvas);
+    expect(factory).toHaveBeenCalledWith(32, 32);
+    expect(factory).toHaveBeenCalledWith(16, 16);
+  });
+
+  it("copies bitmaps onto a canvas even when no resize is needed", () => {
+    const bitmap = createImageBitmap(32, 32);
+
+    const resized = new Resize(bitmap).resize(32, 32);
+
+    expect(resized).toBeInstanceOf(HTMLCanvasElement);
+    expect(getCanvasOperations(resized)).toEqual(["drawImage:32x32->32x32"]);
+  });
+
+  it("generates a binary bundle inside a worker-like environment", async () => {
+    const bundle = await withoutDocument(() =>
+      new FaviconComposer(createOffscreenCanvas(256, 256)).bundleBlobs({
+        icoSizes: [16, 256],
+        pngSizes: [32],
+      }),
+    );
+
+    expect(bundle.ico.type).toBe("image/x-icon");
+    expect(
+      readPngMetaFromBytes(new Uint8Array(await bundle.pngs[32].arrayBuffer())),
+    ).toMatchObject({ width: 32, height: 32 });
+  });
+
+  it("generates ICO and PNG bytes from an ImageBitmap", async () => {
+    const bitmap = createImageBitmap(64, 64);
+
+    const ico = await new IcoGenerator(bitmap).generateBytes([16, 64]);
+    const png = await new PngGenerator(bitmap).generateBytes(64);
+
+    expect(new DataView(ico.buffer).getUint16(4, true)).toBe(2);
+    expect(readPngMetaFromBytes(png)).toMatchObject({ width: 64 });
+  });
+
+  it("explains that data URLs need a DOM canvas", async () => {
+    await expect(
+      withoutDocument(() =>
+        new PngGenerator(createOffscreenCanvas(64, 64)).generate(32),
+      ),
+    ).rejects.toThrow("Data URL output requires an HTMLCanvasElement");
+  });
+
+  it("draws text icons on offscreen canvases", async () => {
+    const generated = await withoutDocument(() =>
+      TextIconGenerator.generate({ text: "W", width: 32, height: 32 }),
+    );
+
+    expect(generated).toBeInstanceOf(OffscreenCanvas);
+    expect(generated.width).toBe(32);
+    expect(
+      getCanvasOperations(generated).some((operation) =>
+        operation.startsWith("fillText:W@"),
+      ),
+    ).toBe(true);
+    expect(() => new TextIconGenerator(createImageBitmap() as never)).toThrow(
+      TypeError,
+    );
+  });
+
+  it("draws monograms on offscreen canvases like text icons", async () => {
+    const generated = await withoutDocument(() =>
+      MonogramGenerator.generate({ name: "Ada Lovelace" }),
+    );
+
+    expect(generated).toBeInstanceOf(OffscreenCanvas);
+    expect(MonogramGenerator.generate({ name: "Ada" })).toBeInstanceOf(
+      TextIconGenerator.generate().constructor,
+    );
+  });
+});
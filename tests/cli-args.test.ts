@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+
+import { parseArgs } from "../src/cli/args";
+
+describe("cli-args", () => {
+  it("parses every prompt as a flag", () => {
+    const args = parseArgs([
+      "--source",
+      "./logo.png",
+      "--output=./public",
+      "--base-name",
+      "icon",
+      "--fit",
+      "contain",
+      "--background",
+      "#0f172a",
+      "--png-sizes",
+      "512, 32,32",
+      "--ico-sizes=16,48",
+      "--no-html",
+      "--overwrite",
+      "--manifest-name",
+      "My App",
+      "--theme-color",
+      "#2563eb",
+      "--display=fullscreen",
+      "--start-url",
+      "/app/",
+      "--frame",
+      "2",
+      "-y",
+    ]);
+
+    expect(args).toMatchObject({
+      source: "./logo.png",
+      output: "./public",
+      baseName: "icon",
+      fit: "contain",
+      background: "#0f172a",
+      preset: "custom",
+      pngSizes: [32, 512],
+      icoSizes: [16, 48],
+      html: false,
+      overwrite: true,
+      frame: 2,
+      yes: true,
+      manifestOptions: {
+        name: "My App",
+        themeColor: "#2563eb",
+        display: "fullscreen",
+        startUrl: "/app/",
+      },
+    });
+    expect(args.manifest).toBeUndefined();
+    expect(args.icns).toBeUndefined();
+  });
+
+  it("keeps the inspect command and its path", () => {
+    expect(parseArgs(["inspect", "./favicon.ico"])).toMatchObject({
+      command: "inspect",
+      inspectPath: "./favicon.ico",
+    });
+  });
+
+  it("enables maskable icons with a maskable background", () => {
+    expect(parseArgs(["--maskable-background", "#000"])).toMatchObject({
+      maskable: true,
+      maskableBackground: "#000",
+    });
+    expect(() =>
+      parseArgs(["--no-maskable", "--maskable-background", "#000"]),
+    ).toThrow("--maskable-background cannot be used with --no-maskable");
+  });
+
+  it("rejects unknown flags and stray arguments", () => {
+    expect(() => parseArgs(["--colour", "red"])).toThrow(
+      "Unknown option: --colour",
+    );
+    expect(() => parseArgs(["-x"])).toThrow("Unknown option: -x");
+    expect(() => parseArgs(["logo.png"])).toThrow(
+      "Unexpected argument: logo.png",
+    );
+  });
+
+  it("rejects missing and malformed values", () => {
+    expect(() => parseArgs(["--source"])).toThrow("Missing value for --source");
+    expect(() => parseArgs(["--output", "--yes"])).toThrow(
+      "Missing value for --output",
+    );
+    expect(() => parseArgs(["--fit", "stretch"])).toThrow(
+      'Invalid value for --fit: "stretch" (expected cover | contain)',
+    );
+    expect(() => parseArgs(["--preset=web"])).toThrow(
+      "Invalid value for --preset",
+    );
+    expect(() => parseArgs(["--png-sizes", "32,abc"])).toThrow(
+      'Invalid size "abc" in --png-sizes (expected integers from 1 to 1024)',
+    );
+    expect(() => parseArgs(["--ico-sizes", "16,512"])).toThrow(
+      'Invalid size "512" in --ico-sizes (expected integers from 1 to 256)',
+    );
+    expect(() => parseArgs(["--frame", "-1"])).toThrow(
+      '--frame must be a non-negative integer, got "-1"',
+    );
+    expect(() =>
+      parseArgs(["--fit", "contain", "--background", "nope"]),
+    ).toThrow(
+      'Invalid value for --background: "nope" (expected a CSS color such as #0f172a or navy)',
+    );
+    expect(() => parseArgs(["--theme-color=#12"])).toThrow(
+      'Invalid value for --theme-color: "#12"',
+    );
+    expect(() => parseArgs(["--maskable-background", "#ggg"])).toThrow(
+      "Invalid value for --maskable-background",
+    );
+    expect(
+      parseArgs(["--manifest-background", "rgb(15, 23, 42)"]).manifestOptions,
+    ).toEqual({ backgroundColor: "rgb(15, 23, 42)" });
+    expect(() => parseArgs(["--html=yes"])).toThrow(
+      "--html does not take a value",
+    );
+  });
+
+  it("parses batch mode flags", () => {
+    expect(
+      parseArgs(["--source", "./brands", "--batch", "--concurrency", "2"]),
+    ).toMatchObject({ source: "./brands", batch: true, concurrency: 2 });
+    expect(() => parseArgs(["--batch", "--concurrency", "0"])).toThrow(
+      "--concurrency must be at least 1",
+    );
+    expect(() => parseArgs(["--concurrency", "2"])).toThrow(
+      "--concurrency requires --batch",
+    );
+    expect(() => parseArgs(["--batch", "--watch"])).toThrow(
+      "--watch cannot be used with --batch",
+    );
+    expect(() => parseArgs(["--batch", "--frame", "1"])).toThrow(
+      "--frame cannot be used with --batch",
+    );
+  });
+
+  it("parses report flags", () => {
+    expect(parseArgs(["--json"])).toMatchObject({ json: true, yes: true });
+    expect(parseArgs(["--report=./report.json"])).toMatchObject({
+      json: false,
+      yes: false,
+      report: "./report.json",
+    });
+    expect(() => parseArgs(["--json", "--watch"])).toThrow(
+      "--json and --report cannot be used with --watch",
+    );
+    expect(() => parseArgs(["--report"])).toThrow("Missing value for --report");
+  });
+
+  it("rejects conflicting flags", () => {
+    expect(() =>
+      parseArgs(["--preset", "web-app", "--png-sizes", "32"]),
+    ).toThrow("--png-sizes and --ico-sizes require --preset custom");
+    expect(() => parseArgs(["--fit", "cover", "--background", "#fff"])).toThrow(
+      "--background only applies to --fit contain",
+    );
+    expect(() => parseArgs(["--no-manifest", "--theme-color", "#fff"])).toThrow(
+      "Manifest fields cannot be used with --no-manifest",
+    );
+  });
+});
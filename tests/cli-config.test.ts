@@ -0,0 +1,189 @@
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { describe, expect, it } from "vitest";
+
+import { parseArgs } from "../src/cli/args";
+import {
+  applyConfig,
+  findConfigFile,
+  loadConfig,
+  validateConfig,
+} from "../src/cli/config";
+
+describe("cli-config", () => {
+  it("finds and loads a JSON config", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "favium-config-"));
+    await writeFile(
+      join(directory, "favium.config.json"),
+      JSON.stringify({ source: "./logo.png", preset: "web-app" }),
+    );
+
+    const configPath = await findConfigFile(directory);
+
+    expect(configPath).toBe(join(directory, "favium.config.json"));
+    expect(await loadConfig(configPath!)).toEqual({
+      source: "./logo.png",
+      preset: "web-app",
+    });
+    expect(await findConfigFile(tmpdir())).toBeUndefined();
+  });
+
+  it("loads the default export of a JavaScript config", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "favium-config-"));
+    const configPath = join(directory, "favium.config.mjs");
+    await writeFile(
+      configPath,
+      'export default { fit: "contain", manifest: { name: "My App" } };',
+    );
+
+    expect(await loadConfig(configPath)).toEqual({
+      fit: "contain",
+      manifest: { name: "My App" },
+    });
+  });
+
+  it("reports malformed JSON", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "favium-config-"));
+    const configPath = join(directory, "favium.config.json");
+    await writeFile(configPath, "{ source: ");
+
+    await expect(loadConfig(configPath)).rejects.toThrow(
+      "Invalid JSON in favium.config.json",
+    );
+  });
+
+  it("lists every schema violation", () => {
+    expect(() =>
+      validateConfig(
+        {
+          fit: "stretch",
+          pngOutputs: [
+            { size: 32, filename: "a.png" },
+            { size: 2048, filename: "" },
+            { filename: "c.png", purpose: "monochrome" },
+          ],
+          background: "notacolor",
+          manifest: { display: "tv", themeColor: "#12" },
+          maskable: { safeZone: 1.5, backgroundColor: "" },
+          pngSize: [32],
+        },
+        "favium.config.json",
+      ),
+    ).toThrow(
+      [
+        "Invalid favium.config.json:",
+        '  - fit must be one of "cover", "contain"',
+        "  - pngOutputs[1].size must be an integer from 1 to 1024",
+        "  - pngOutputs[1].filename must be a non-empty string",
+        "  - pngOutputs[2].size is required",
+        '  - pngOutputs[2].purpose must be one of "any", "maskable"',
+        "  - background must be a CSS color such as #0f172a or navy",
+        '  - manifest.display must be one of "standalone", "minimal-ui", "fullscreen", "browser"',
+        "  - manifest.themeColor must be a CSS color such as #0f172a or navy",
+        "  - maskable.safeZone must be a number greater than 0 and at most 1",
+        "  - maskable.backgroundColor must be a CSS color such as #0f172a or navy",
+        "  - pngSize is not a known option (expected one of $schema, source, frame, output, baseName, preset, pngOutputs, icoSizes, fit, background, overwrite, html, manifest, manifestFilename, icns, maskable)",
+      ].join("\n"),
+    );
+    expect(() => validateConfig([], "favium.config.js")).toThrow(
+      "The config must be an object",
+    );
+  });
+
+  it("lets flags override config values and resolves paths", () => {
+    const config = validateConfig(
+      {
+        source: "./assets/logo.png",
+        output: "public",
+        fit: "contain",
+        background: "#0f172a",
+        pngOutputs: [{ size: 32, filename: "icon-32.png", rel: "icon" }],
+        manifest: { name: "Config App", themeColor: "#000000" },
+        maskable: { backgroundColor: "#0f172a", safeZone: 0.7 },
+      },
+      "favium.config.json",
+    );
+
+    const args = applyConfig(
+      parseArgs(["--fit", "contain", "--theme-color", "#2563eb"]),
+      config,
+      "/repo/apps/web",
+    );
+
+    expect(args).toMatchObject({
+      source: "/repo/apps/web/assets/logo.png",
+      output: "/repo/apps/web/public",
+      fit: "contain",
+      background: "#0f172a",
+      pngOutputs: [{ size: 32, filename: "icon-32.png", rel: "icon" }],
+      manifest: true,
+      manifestOptions: { name: "Config App", themeColor: "#2563eb" },
+      maskable: true,
+      maskableBackground: "#0f172a",
+      maskableSafeZone: 0.7,
+    });
+    expect(
+      applyConfig(parseArgs(["--preset", "web-app"]), config, "/repo")
+        .pngOutputs,
+    ).toBeUndefined();
+    expect(
+      applyConfig(
+        parseArgs([]),
+        { source: "https://example.com/logo.png" },
+        "/repo",
+      ).source,
+    ).toBe("https://example.com/logo.png");
+  });
+
+  it("drops config options that flags turn off", () => {
+    const config = validateConfig(
+      {
+        fit: "contain",
+        background: "#0f172a",
+        manifest: { themeColor: "#000000" },
+        maskable: { backgroundColor: "#0f172a", safeZone: 0.7 },
+      },
+      "favium.config.json",
+    );
+
+    expect(
+      applyConfig(
+        parseArgs(["--fit", "cover", "--no-manifest", "--no-maskable"]),
+        config,
+        "/repo",
+      ),
+    ).toMatchObject({
+      fit: "cover",
+      background: undefined,
+      manifest: false,
+      manifestOptions: {},
+      maskable: false,
+      maskableBackground: undefined,
+      maskableSafeZone: undefined,
+    });
+  });
+
+  it("rechecks conflicts between config values and flags", () => {
+    expect(() =>
+      applyConfig(
+        parseArgs([]),
+        { fit: "cover", background: "#0f172a" },
+        "/repo",
+      ),
+    ).toThrow(
+      "Config and flags conflict: --background only applies to --fit contain",
+    );
+    expect(() =>
+      applyConfig(
+        parseArgs(["--theme-color", "#2563eb"]),
+        { manifest: false },
+        "/repo",
+      ),
+    ).toThrow("Manifest fields cannot be used with --no-manifest");
+    expect(() =>
+      applyConfig(parseArgs(["--batch"]), { frame: 1 }, "/repo"),
+    ).toThrow("--frame cannot be used with --batch");
+  });
+});
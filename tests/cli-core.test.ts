@@ -1,17 +1,29 @@
+import { createHash } from "node:crypto";
 import { mkdir, mkdtemp, readFile, writeFile } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 
+import pngToIco from "png-to-ico";
 import sharp from "sharp";
 import { afterEach, describe, expect, it, vi } from "vitest";
 
 import {
   collectImagesFromDirectory,
+  createBatchReport,
+  createGenerationReport,
+  createManifestOptions,
+  formatBatchSummary,
   formatBytes,
+  formatIconInspection,
   generateArtifacts,
+  generateBatch,
+  getBatchOutputDirectory,
   getPresetBlueprint,
   getSuggestedOutputDirectory,
+  hashArtifacts,
+  inspectIconFile,
   isSupportedImagePath,
+  listChangedArtifacts,
   loadImageFromPath,
   loadImageFromUrl,
   parseSizeList,
@@ -19,6 +31,8 @@ import {
   renderManifest,
   sanitizeBaseName,
   summarizePlan,
+  watchFiles,
+  writeReport,
   type CliGenerationPlan,
   type LoadedImageSource,
 } from "../src/cli/core.ts";
@@ -71,6 +85,8 @@ describe("cli-core", () => {
   it("recognizes supported image extensions case-insensitively", () => {
     expect(isSupportedImagePath("/tmp/logo.PNG")).toBe(true);
     expect(isSupportedImagePath("/tmp/logo.webp")).toBe(true);
+    expect(isSupportedImagePath("/tmp/favicon.ICO")).toBe(true);
+    expect(isSupportedImagePath("/tmp/pointer.cur")).toBe(true);
     expect(isSupportedImagePath("/tmp/logo.txt")).toBe(false);
   });
 
@@ -233,6 +249,53 @@ describe("cli-core", () => {
     expect(source.directory).toBe(directory);
   });
 
+  it("loads the largest entry of a legacy ICO file", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "favium-ico-source-"));
+    const filePath = join(directory, "favicon.ico");
+    await writeFile(
+      filePath,
+      await pngToIco([
+        await createImageBuffer("png", 16),
+        await createImageBuffer("png", 48),
+        await createImageBuffer("png", 32),
+      ]),
+    );
+
+    const source = await loadImageFromPath(filePath);
+    const metadata = await sharp(source.buffer).metadata();
+
+    expect(source.format).toBe("ico");
+    expect(source.width).toBe(48);
+    expect(source.frame).toBe(1);
+    expect(metadata.format).toBe("png");
+    expect(metadata.width).toBe(48);
+  });
+
+  it("loads a chosen ICO frame and rejects frames for other formats", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "favium-ico-frame-"));
+    const icoPath = join(directory, "favicon.ico");
+    const pngPath = join(directory, "logo.png");
+    await writeFile(
+      icoPath,
+      await pngToIco([
+        await createImageBuffer("png", 16),
+        await createImageBuffer("png", 32),
+      ]),
+    );
+    await createImage(pngPath, "png");
+
+    const source = await loadImageFromPath(icoPath, { frame: 0 });
+
+    expect(source.width).toBe(16);
+    expect(source.frame).toBe(0);
+    await expect(loadImageFromPath(icoPath, { frame: 5 })).rejects.toThrow(
+      "ICO entry 5 does not exist",
+    );
+    await expect(loadImageFromPath(pngPath, { frame: 0 })).rejects.toThrow(
+      "Frame selection is only supported for ICO and CUR files",
+    );
+  });
+
   it("loads external images from URLs", async () => {
     const imageBuffer = await createImageBuffer("png", 24);
     vi.spyOn(globalThis, "fetch").mockResolvedValue(
@@ -339,6 +402,351 @@ describe("cli-core", () => {
     );
   });
 
+  it("writes an ICNS file when requested", async () => {
+    const outputDir = await mkdtemp(join(tmpdir(), "favium-icns-"));
+    const sourceBuffer = await createImageBuffer("png", 64);
+    const source: LoadedImageSource = {
+      kind: "custom-path",
+      label: "logo.png",
+      origin: "/tmp/logo.png",
+      buffer: sourceBuffer,
+      width: 64,
+      height: 64,
+      format: "png",
+      sizeBytes: sourceBuffer.byteLength,
+      suggestedBaseName: "logo",
+      directory: outputDir,
+    };
+    const plan: CliGenerationPlan = {
+      baseName: "app",
+      outputDir,
+      fit: "cover",
+      background: "#ffffff",
+      overwrite: true,
+      icoSizes: [],
+      pngOutputs: [],
+      htmlSnippet: false,
+      manifest: false,
+      manifestFilename: "manifest.webmanifest",
+      icns: true,
+    };
+
+    const artifacts = await generateArtifacts(source, plan);
+    const icns = await readFile(join(outputDir, "app.icns"));
+
+    expect(artifacts).toEqual([
+      { type: "icns", filePath: join(outputDir, "app.icns") },
+    ]);
+    expect(icns.subarray(0, 4).toString("latin1")).toBe("icns");
+    expect(icns.readUInt32BE(4)).toBe(icns.byteLength);
+    expect(icns.subarray(8, 12).toString("latin1")).toBe("ic07");
+  });
+
+  it("pads maskable outputs into the safe zone", async () => {
+    const outputDir = await mkdtemp(join(tmpdir(), "favium-maskable-"));
+    const sourceBuffer = await createImageBuffer("png", 64);
+    const source: LoadedImageSource = {
+      kind: "custom-path",
+      label: "logo.png",
+      origin: "/tmp/logo.png",
+      buffer: sourceBuffer,
+      width: 64,
+      height: 64,
+      format: "png",
+      sizeBytes: sourceBuffer.byteLength,
+      suggestedBaseName: "logo",
+      directory: outputDir,
+    };
+    const blueprint = getPresetBlueprint(
+      "apple-android",
+      "app",
+      undefined,
+      undefined,
+      [192],
+    );
+    const plan: CliGenerationPlan = {
+      baseName: "app",
+      outputDir,
+      fit: "cover",
+      background: "#ffffff",
+      overwrite: true,
+      ...blueprint,
+      icoSizes: [],
+      htmlSnippet: false,
+      manifestOptions: createManifestOptions("app"),
+      maskableOptions: { backgroundColor: "#ff0000", safeZone: 0.8 },
+    };
+
+    await generateArtifacts(source, plan);
+    const { data, info } = await sharp(
+      await readFile(join(outputDir, "maskable-icon-192x192.png")),
+    )
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const manifest = JSON.parse(
+      await readFile(join(outputDir, "manifest.webmanifest"), "utf8"),
+    );
+
+    expect(info.width).toBe(192);
+    const pixel = (x: number, y: number) => {
+      const offset = (y * info.width + x) * info.channels;
+      return [...data.subarray(offset, offset + 3)];
+    };
+    // The corner lies outside the safe zone and shows the background
+    expect(pixel(0, 0)).toEqual([255, 0, 0]);
+    // So does the corner of an 80% square, which the circle would crop
+    expect(pixel(25, 25)).toEqual([255, 0, 0]);
+    expect(pixel(96, 96)).toEqual([220, 38, 38]);
+    expect(manifest.icons.at(-1)).toEqual({
+      src: "./maskable-icon-192x192.png",
+      sizes: "192x192",
+      type: "image/png",
+      purpose: "maskable",
+    });
+  });
+
+  it("reports sizes, dimensions and digests of generated files", async () => {
+    const outputDir = await mkdtemp(join(tmpdir(), "favium-report-"));
+    const sourceBuffer = await createImageBuffer("png", 64);
+    const source: LoadedImageSource = {
+      kind: "custom-path",
+      label: "logo.png",
+      origin: "/tmp/logo.png",
+      buffer: sourceBuffer,
+      width: 64,
+      height: 64,
+      format: "png",
+      sizeBytes: sourceBuffer.byteLength,
+      suggestedBaseName: "logo",
+    };
+    const plan: CliGenerationPlan = {
+      baseName: "app",
+      outputDir,
+      fit: "cover",
+      background: "#ffffff",
+      overwrite: true,
+      icoSizes: [16, 32],
+      pngOutputs: [{ size: 48, filename: "icon-48.png", rel: "icon" }],
+      htmlSnippet: true,
+      manifest: false,
+      manifestFilename: "manifest.webmanifest",
+      icns: true,
+    };
+
+    const artifacts = await generateArtifacts(source, plan);
+    const report = await createGenerationReport(source, plan, artifacts);
+    const byType = Object.fromEntries(
+      report.artifacts.map((artifact) => [artifact.type, artifact]),
+    );
+    const png = await readFile(join(outputDir, "icon-48.png"));
+
+    expect(report.source).not.toHaveProperty("buffer");
+    expect(report.source).toMatchObject({ label: "logo.png", width: 64 });
+    expect(report.plan).toBe(plan);
+    expect(byType.png).toEqual({
+      type: "png",
+      filePath: join(outputDir, "icon-48.png"),
+      byteSize: png.byteLength,
+      mimeType: "image/png",
+      dimensions: [{ width: 48, height: 48 }],
+      sha256: createHash("sha256").update(png).digest("hex"),
+    });
+    expect(byType.ico.mimeType).toBe("image/x-icon");
+    expect(byType.ico.dimensions).toEqual([
+      { width: 16, height: 16 },
+      { width: 32, height: 32 },
+    ]);
+    expect(byType.icns.dimensions.map(({ width }) => width)).toEqual([
+      128, 256, 512, 1024, 32, 64, 256, 512,
+    ]);
+    expect(byType.html).toMatchObject({
+      mimeType: "text/html",
+      dimensions: [],
+    });
+
+    const reportPath = join(outputDir, "reports", "favicons.json");
+    await writeReport(reportPath, report);
+    expect(JSON.parse(await readFile(reportPath, "utf8"))).toEqual(
+      JSON.parse(JSON.stringify(report)),
+    );
+  });
+
+  it("generates a set per image in batch mode and reports failures", async () => {
+    const root = await mkdtemp(join(tmpdir(), "favium-batch-"));
+    await mkdir(join(root, "nested"));
+    await mkdir(join(root, "acme"));
+    await writeFile(join(root, "acme.png"), await createImageBuffer("png"));
+    await writeFile(
+      join(root, "nested", "beta.webp"),
+      await createImageBuffer("webp"),
+    );
+    await writeFile(join(root, "broken.png"), "not an image");
+    // Left over from an earlier run
+    await writeFile(
+      join(root, "acme", "favicon-32x32.png"),
+      await createImageBuffer("png"),
+    );
+    const progress = vi.fn();
+
+    const results = await generateBatch(
+      await collectImagesFromDirectory(root, true),
+      (source, outputDir) => ({
+        baseName: source.suggestedBaseName,
+        outputDir,
+        fit: "cover",
+        background: "#ffffff",
+        overwrite: true,
+        icoSizes: [16],
+        pngOutputs: [{ size: 32, filename: "favicon-32x32.png", rel: "icon" }],
+        htmlSnippet: false,
+        manifest: false,
+        manifestFilename: "manifest.webmanifest",
+      }),
+      { root, concurrency: 2, onResult: progress },
+    );
+
+    expect(results.map((result) => result.outputDir)).toEqual([
+      join(root, "acme"),
+      join(root, "broken"),
+      join(root, "nested", "beta"),
+    ]);
+    expect(results[0].artifacts).toHaveLength(2);
+    expect(results[1].error).toBeDefined();
+    expect(
+      await readFile(join(root, "nested", "beta", "beta.ico")),
+    ).toBeInstanceOf(Buffer);
+    expect(progress).toHaveBeenLastCalledWith(expect.anything(), {
+      done: 3,
+      total: 3,
+    });
+
+    const summary = formatBatchSummary(results, root).split("\n");
+    expect(summary[0]).toBe(
+      `ok    acme.png -> ${join(root, "acme")} (2 files)`,
+    );
+    expect(summary[1]).toMatch(/^fail {2}broken\.png: /);
+    expect(summary.at(-1)).toBe("2 succeeded, 1 failed");
+
+    const report = await createBatchReport(results, root);
+    expect(report.root).toBe(root);
+    expect(report.results[0].source).toMatchObject({
+      origin: join(root, "acme.png"),
+    });
+    expect(report.results[0].plan?.outputDir).toBe(join(root, "acme"));
+    expect(report.results[0].artifacts[0]).toMatchObject({
+      type: "png",
+      dimensions: [{ width: 32, height: 32 }],
+    });
+    expect(report.results[1]).toMatchObject({ artifacts: [] });
+    expect(report.results[1].source).toBeUndefined();
+  });
+
+  it("mirrors batch sources below an output root", async () => {
+    expect(
+      getBatchOutputDirectory("/brands/web/Acme Logo.svg", {
+        root: "/brands",
+        outputRoot: "/public/icons",
+      }),
+    ).toBe("/public/icons/web/acme-logo");
+    expect(
+      getBatchOutputDirectory("/brands/acme.png", { root: "/brands" }),
+    ).toBe("/brands/acme");
+    await expect(
+      generateBatch([], vi.fn(), { root: "/brands", concurrency: 0 }),
+    ).rejects.toThrow("Concurrency must be a positive integer");
+  });
+
+  it("reports which artifacts a rerun changed", async () => {
+    const outputDir = await mkdtemp(join(tmpdir(), "favium-hash-"));
+    const artifacts = ["a.png", "b.png", "c.png"].map((name) => ({
+      type: "png" as const,
+      filePath: join(outputDir, name),
+    }));
+    await writeFile(artifacts[0].filePath, "same");
+    await writeFile(artifacts[1].filePath, "before");
+    const before = await hashArtifacts(artifacts.slice(0, 2));
+
+    await writeFile(artifacts[1].filePath, "after");
+    await writeFile(artifacts[2].filePath, "new");
+    const after = await hashArtifacts(artifacts);
+
+    expect(listChangedArtifacts(artifacts, before, after)).toEqual(
+      artifacts.slice(1),
+    );
+    expect(after.get(artifacts[0].filePath)).toBe(
+      createHash("sha256").update("same").digest("hex"),
+    );
+  });
+
+  it("debounces changes to watched files", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "favium-watch-"));
+    const logo = join(directory, "logo.svg");
+    await writeFile(logo, "<svg/>");
+    const onChange = vi.fn();
+
+    const stop = watchFiles([logo], onChange, { debounceMs: 50 });
+    try {
+      await writeFile(join(directory, "other.svg"), "<svg/>");
+      await writeFile(logo, "<svg>1</svg>");
+      await writeFile(logo, "<svg>2</svg>");
+
+      await vi.waitFor(() => expect(onChange).toHaveBeenCalled());
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange).toHaveBeenCalledWith([logo]);
+    } finally {
+      stop();
+    }
+  });
+
+  it("inspects generated ICO files", async () => {
+    const outputDir = await mkdtemp(join(tmpdir(), "favium-inspect-"));
+    const sourceBuffer = await createImageBuffer("png", 64);
+    const source: LoadedImageSource = {
+      kind: "custom-path",
+      label: "logo.png",
+      origin: "/tmp/logo.png",
+      buffer: sourceBuffer,
+      width: 64,
+      height: 64,
+      format: "png",
+      sizeBytes: sourceBuffer.byteLength,
+      suggestedBaseName: "logo",
+      directory: outputDir,
+    };
+    const plan: CliGenerationPlan = {
+      baseName: "favicon",
+      outputDir,
+      fit: "cover",
+      background: "#ffffff",
+      overwrite: true,
+      icoSizes: [16, 32],
+      pngOutputs: [],
+      htmlSnippet: false,
+      manifest: false,
+      manifestFilename: "manifest.webmanifest",
+    };
+
+    await generateArtifacts(source, plan);
+    const info = await inspectIconFile(join(outputDir, "favicon.ico"));
+    const report = formatIconInspection("favicon.ico", info);
+
+    expect(info.type).toBe("icon");
+    expect(info.entries.map((entry) => entry.width)).toEqual([16, 32]);
+    expect(report).toContain("Type: ICO (2 entries)");
+    expect(report).toMatch(/#0: 16x16, 32-bit, (BMP|PNG)/);
+  });
+
+  it("rejects non-ICO files during inspection", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "favium-inspect-bad-"));
+    const filePath = join(directory, "logo.png");
+    await createImage(filePath, "png");
+
+    await expect(inspectIconFile(filePath)).rejects.toThrow(
+      `Invalid ICO file: unrecognized header (${filePath})`,
+    );
+  });
+
   it("refuses to overwrite existing files when overwrite is disabled", async () => {
     const outputDir = await mkdtemp(join(tmpdir(), "favium-overwrite-"));
     const sourceBuffer = await createImageBuffer("png", 64);
@@ -1,12 +1,14 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 
 import FaviconComposer from "../src/composer/favicon";
 import BundleGenerator from "../src/generators/bundle";
 import TextIconGenerator from "../src/generators/center";
 import {
   createCanvas,
+  decodeIco,
   getCanvasOperations,
   readPngMeta,
+  readPngMetaFromBytes,
   setDevicePixelRatio,
 } from "./support/fake-canvas";
 
@@ -58,6 +60,24 @@ describe("FaviconComposer", () => {
     expect(resized.height).toBe(96);
   });
 
+  it("passes the resampling filter through", () => {
+    const canvas = createCanvas(48, 48);
+    const favicon = new FaviconComposer(canvas);
+
+    const resized = favicon.resize(24, "lanczos3");
+    const bundle = favicon.bundle({
+      icoSizes: [16],
+      pngSizes: [32],
+      filter: "mitchell",
+    });
+
+    expect(getCanvasOperations(resized)).toEqual(["putImageData:24x24@0,0"]);
+    expect(readPngMeta(bundle.pngs[32])).toMatchObject({ width: 32 });
+    expect(readPngMeta(favicon.png(16, { filter: "box" }))).toMatchObject({
+      width: 16,
+    });
+  });
+
   it("generates direct ICO and PNG outputs", () => {
     const canvas = createCanvas(40, 40);
     const favicon = new FaviconComposer(canvas);
@@ -90,6 +110,35 @@ describe("FaviconComposer", () => {
   });
 });
 
+describe("FaviconComposer binary output", () => {
+  it("returns Blobs and bytes for every format", async () => {
+    const canvas = createCanvas(64, 64);
+    const favicon = new FaviconComposer(canvas);
+
+    const bundle = await favicon.bundleBlobs({
+      icoSizes: [16, 32],
+      pngSizes: [32, 180],
+    });
+    const icoBytes = await favicon.icoBytes([16]);
+    const icoBlob = await favicon.icoBlob([16]);
+    const pngBytes = await favicon.pngBytes(48);
+    const pngBlob = await favicon.pngBlob(48);
+    const icnsBlob = await favicon.icnsBlob(["ic07"]);
+
+    expect(bundle.ico.type).toBe("image/x-icon");
+    expect(Object.keys(bundle.pngs)).toEqual(["32", "180"]);
+    expect(
+      readPngMetaFromBytes(
+        new Uint8Array(await bundle.pngs[180].arrayBuffer()),
+      ),
+    ).toMatchObject({ width: 180, height: 180 });
+    expect(icoBlob.size).toBe(icoBytes.length);
+    expect(readPngMetaFromBytes(pngBytes)).toMatchObject({ width: 48 });
+    expect(pngBlob.type).toBe("image/png");
+    expect(icnsBlob.type).toBe("image/icns");
+  });
+});
+
 describe("BundleGenerator", () => {
   it("returns the same bundle contract directly", () => {
     const canvas = createCanvas(128, 128);
@@ -109,6 +158,60 @@ describe("BundleGenerator", () => {
   });
 });
 
+describe("BundleGenerator source overrides", () => {
+  function readIcoPixel(ico: string, index: number): number[] {
+    const bytes = decodeIco(ico);
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    const offset = view.getUint32(6 + index * 16 + 12, true) + 40;
+    return Array.from(bytes.subarray(offset, offset + 4));
+  }
+
+  it("uses the nearest larger source for each size", () => {
+    const main = createCanvas(512, 512, () => [0, 0, 255, 255]);
+    const hinted = createCanvas(16, 16, () => [255, 0, 0, 255]);
+    const detailed = createCanvas(128, 128, () => [0, 255, 0, 255]);
+    const toDataUrl = vi.spyOn(hinted, "toDataURL");
+
+    const bundle = new BundleGenerator(main).generate({
+      icoSizes: [16, 32, 256],
+      pngSizes: [16],
+      sources: { 16: hinted, 64: detailed },
+    });
+
+    // BMP pixels are stored as BGRA
+    expect(readIcoPixel(bundle.ico, 0)).toEqual([0, 0, 255, 255]);
+    expect(readIcoPixel(bundle.ico, 1)).toEqual([0, 255, 0, 255]);
+    expect(toDataUrl).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the main canvas above every override", async () => {
+    const main = createCanvas(512, 512);
+    const hinted = createCanvas(16, 16);
+    const toBlob = vi.spyOn(hinted, "toBlob");
+
+    const bundle = await new FaviconComposer(main).bundleBlobs({
+      icoSizes: [48],
+      pngSizes: [16, 192],
+      sources: { 16: hinted },
+    });
+
+    expect(Object.keys(bundle.pngs)).toEqual(["16", "192"]);
+    expect(toBlob).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects invalid overrides", () => {
+    const canvas = createCanvas();
+    const generator = new BundleGenerator(canvas);
+
+    expect(() =>
+      generator.generate({ sources: { 0: createCanvas() } }),
+    ).toThrow(RangeError);
+    expect(() =>
+      generator.generate({ sources: { 16: {} as HTMLCanvasElement } }),
+    ).toThrow(TypeError);
+  });
+});
+
 describe("TextIconGenerator", () => {
   it("draws background and text on the provided canvas", () => {
     const canvas = createCanvas();
@@ -193,4 +296,497 @@ describe("TextIconGenerator", () => {
 
     setDevicePixelRatio(1);
   });
+
+  it("shrinks the font to fit the padding box when auto-fitting", () => {
+    const generated = TextIconGenerator.generate({
+      text: "API",
+      width: 64,
+      height: 64,
+      fontSize: 40,
+      autoFit: true,
+    });
+
+    expect(generated.getContext("2d")?.font).toMatch(/ 28px /);
+  });
+
+  it("keeps the font size when the text already fits", () => {
+    const generated = TextIconGenerator.generate({
+      text: "A",
+      width: 64,
+      height: 64,
+      fontSize: 30,
+      autoFit: true,
+    });
+
+    expect(generated.getContext("2d")?.font).toMatch(/ 30px /);
+  });
+
+  it("draws multi-line text around the vertical center", () => {
+    const generated = TextIconGenerator.generate({
+      text: "A\nB",
+      width: 64,
+      height: 64,
+      fontSize: 20,
+      lineHeight: 1.5,
+    });
+
+    expect(getCanvasOperations(generated)).toEqual(
+      expect.arrayContaining(["fillText:A@32.5,17.5", "fillText:B@32.5,47.5"]),
+    );
+  });
+
+  it("applies letter spacing per grapheme", () => {
+    const generated = TextIconGenerator.generate({
+      text: "AB",
+      width: 64,
+      height: 64,
+      fontSize: 20,
+      letterSpacing: 4,
+    });
+
+    expect(getCanvasOperations(generated)).toEqual(
+      expect.arrayContaining(["fillText:A@18.5,32.5", "fillText:B@34.5,32.5"]),
+    );
+
+    const emoji = TextIconGenerator.generate({
+      text: "👍🏽",
+      letterSpacing: 2,
+    });
+    expect(
+      getCanvasOperations(emoji).filter((operation) =>
+        operation.startsWith("fillText:"),
+      ),
+    ).toEqual([expect.stringMatching(/^fillText:👍🏽@/)]);
+  });
+
+  it("fills the background and text with gradients", () => {
+    const generated = TextIconGenerator.generate({
+      width: 64,
+      height: 32,
+      backgroundColor: {
+        type: "linear",
+        angle: 90,
+        stops: [
+          { offset: 0, color: "#4f46e5" },
+          { offset: 1, color: "#db2777" },
+        ],
+      },
+      fontColor: {
+        type: "radial",
+        x: 0,
+        y: 0,
+        radius: 0.5,
+        stops: [{ offset: 0, color: "white" }],
+      },
+    });
+
+    const operations = getCanvasOperations(generated);
+    expect(operations.slice(1, 5)).toEqual([
+      "createLinearGradient:0,16,64,16",
+      "addColorStop:0,#4f46e5",
+      "addColorStop:1,#db2777",
+      "fillRect:0,0,64,32",
+    ]);
+    expect(operations).toContain(
+      `createRadialGradient:0,0,0,0,0,${Math.hypot(64, 32) / 2}`,
+    );
+  });
+
+  it("draws an inner border following the corner radius", () => {
+    const generated = TextIconGenerator.generate({
+      text: null,
+      width: 64,
+      height: 64,
+      cornerRadius: 12,
+      border: { width: 4, color: "#f59e0b" },
+    });
+
+    const operations = getCanvasOperations(generated);
+    expect(operations.slice(operations.indexOf("fill") + 1)).toEqual([
+      "beginPath",
+      "moveTo:12,2",
+      "arcTo:62,2,62,62,10",
+      "arcTo:62,62,2,62,10",
+      "arcTo:2,62,2,2,10",
+      "arcTo:2,2,62,2,10",
+      "closePath",
+      "stroke:4",
+    ]);
+  });
+
+  it("outlines the text and scales the shadow to the pixel ratio", () => {
+    const generated = TextIconGenerator.generate({
+      text: "F",
+      pixelRatio: 2,
+      textStroke: { width: 3, color: "black" },
+      textShadow: { color: "rgba(0, 0, 0, 0.5)", blur: 4, offsetY: 2 },
+    });
+
+    const operations = getCanvasOperations(generated);
+    const strokeIndex = operations.findIndex((operation) =>
+      operation.startsWith("strokeText:F@"),
+    );
+    expect(strokeIndex).toBeGreaterThan(-1);
+    expect(operations[strokeIndex + 1]).toBe(
+      operations[strokeIndex].replace("strokeText", "fillText"),
+    );
+
+    const ctx = generated.getContext("2d") as CanvasRenderingContext2D;
+    expect(ctx.lineWidth).toBe(3);
+    expect(ctx.shadowColor).toBe("rgba(0, 0, 0, 0.5)");
+    expect(ctx.shadowBlur).toBe(8);
+    expect(ctx.shadowOffsetX).toBe(0);
+    expect(ctx.shadowOffsetY).toBe(4);
+  });
+
+  it("renders the icon as SVG", () => {
+    expect(
+      TextIconGenerator.svg({
+        text: "F",
+        width: 64,
+        height: 64,
+        cornerRadius: 12,
+        backgroundColor: "#111827",
+      }),
+    ).toBe(
+      [
+        '<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64" viewBox="0 0 64 64">',
+        '<rect class="background" width="64" height="64" rx="12" ry="12" fill="#111827"/>',
+        '<text class="text" font-family="Helvetica" font-size="64" font-weight="400" font-style="normal" text-anchor="middle" dominant-baseline="central" fill="white"><tspan x="32" y="32">F</tspan></text>',
+        "</svg>",
+      ].join("\n"),
+    );
+  });
+
+  it("embeds gradients, escaped lines and dark mode colors in SVG", () => {
+    const options = {
+      text: "A&B\n<C>",
+      width: 64,
+      height: 64,
+      fontSize: 20,
+      backgroundColor: {
+        type: "linear" as const,
+        stops: [
+          { offset: 0, color: "#4f46e5" },
+          { offset: 1, color: "#db2777" },
+        ],
+      },
+      border: { width: 4, color: "white" },
+      darkColors: {
+        backgroundColor: "#111827",
+        borderColor: {
+          type: "radial" as const,
+          stops: [{ offset: 0, color: "#f9fafb" }],
+        },
+      },
+    };
+
+    const svg = TextIconGenerator.svg(options);
+
+    expect(svg).toContain(
+      '<linearGradient id="background-fill" gradientUnits="userSpaceOnUse" x1="32" y1="0" x2="32" y2="64"><stop offset="0" stop-color="#4f46e5"/><stop offset="1" stop-color="#db2777"/></linearGradient>',
+    );
+    expect(svg).toContain('<radialGradient id="dark-border-fill"');
+    expect(svg).toContain(
+      "<style>@media (prefers-color-scheme: dark) { .background { fill: #111827; } .border { stroke: url(#dark-border-fill); } }</style>",
+    );
+    expect(svg).toContain(
+      '<rect class="border" x="2" y="2" width="60" height="60" fill="none" stroke="white" stroke-width="4"/>',
+    );
+    expect(svg).toContain(
+      '<tspan x="32" y="20">A&amp;B</tspan><tspan x="32" y="44">&lt;C&gt;</tspan>',
+    );
+
+    // The same options still render the raster icon
+    expect(TextIconGenerator.generate(options).width).toBe(64);
+  });
+
+  it("uses the auto-fitted font size and text effects in SVG", () => {
+    const svg = new TextIconGenerator(createCanvas()).svg({
+      text: "API",
+      width: 64,
+      height: 64,
+      fontSize: 40,
+      autoFit: true,
+      textStroke: { width: 2, color: "black" },
+      textShadow: { color: "black", blur: 4, offsetY: 2 },
+    });
+
+    expect(svg).toContain('font-size="28"');
+    expect(svg).toContain(
+      'stroke="black" stroke-width="2" stroke-linejoin="round" paint-order="stroke" filter="url(#text-shadow)"',
+    );
+    expect(svg).toContain(
+      '<feDropShadow dx="0" dy="2" stdDeviation="2" flood-color="black"/>',
+    );
+  });
+
+  it("masks the icon with a named shape in the centered square", () => {
+    const generated = TextIconGenerator.generate({
+      text: "F",
+      width: 64,
+      height: 32,
+      shape: "circle",
+      border: { width: 2, color: "white" },
+    });
+
+    const operations = getCanvasOperations(generated);
+    expect(operations.slice(1, 4)).toEqual([
+      "save",
+      "beginPath",
+      "moveTo:48,16",
+    ]);
+    const clipIndex = operations.indexOf("clip");
+    expect(operations.slice(clipIndex, clipIndex + 2)).toEqual([
+      "clip",
+      "fillRect:0,0,64,32",
+    ]);
+    expect(operations).toContain("stroke:4");
+    expect(
+      operations.findIndex((operation) => operation.startsWith("fillText:F@")),
+    ).toBeLessThan(operations.indexOf("restore"));
+    expect(operations.at(-1)).toBe("restore");
+  });
+
+  it("masks the icon with a custom Path2D scaled to the icon", () => {
+    const added: Array<{ path: object; matrix: number[] }> = [];
+    class FakePath2D {
+      public addPath(path: object, matrix: { values: number[] }): void {
+        added.push({ path, matrix: matrix.values });
+      }
+    }
+    class FakeDOMMatrix {
+      constructor(public readonly values: number[]) {}
+    }
+    vi.stubGlobal("Path2D", FakePath2D);
+    vi.stubGlobal("DOMMatrix", FakeDOMMatrix);
+
+    try {
+      const star = new Path2D();
+      const generated = TextIconGenerator.generate({
+        text: null,
+        width: 64,
+        height: 64,
+        shape: star,
+        border: { width: 3, color: "white" },
+      });
+
+      expect(added).toEqual([{ path: star, matrix: [64, 0, 0, 64, 0, 0] }]);
+      expect(getCanvasOperations(generated)).toEqual(
+        expect.arrayContaining(["clip:path", "stroke:path:6"]),
+      );
+      expect(() => TextIconGenerator.svg({ shape: star })).toThrow(
+        "Path2D shapes cannot be rendered as SVG; use a named shape",
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("clips SVG output to the shape", () => {
+    const svg = TextIconGenerator.svg({
+      text: "F",
+      width: 64,
+      height: 64,
+      shape: "hexagon",
+      border: { width: 2, color: "white" },
+    });
+    const hexagon =
+      "M 32 0 L 59.713 16 L 59.713 48 L 32 64 L 4.287 48 L 4.287 16 Z";
+
+    expect(svg).toContain(
+      `<defs><clipPath id="shape"><path d="${hexagon}"/></clipPath></defs>`,
+    );
+    expect(svg).toContain(
+      `<path class="background" d="${hexagon}" fill="black"/>`,
+    );
+    expect(svg).toContain(
+      `<path class="border" d="${hexagon}" fill="none" stroke="white" stroke-width="4" clip-path="url(#shape)"/>`,
+    );
+    expect(svg).toMatch(/<text [^>]*clip-path="url\(#shape\)"/);
+  });
+
+  it("rejects unknown shapes", () => {
+    expect(() =>
+      TextIconGenerator.generate({ shape: "star" as "circle" }),
+    ).toThrow(
+      "Shape must be one of rounded, circle, squircle, hexagon, shield or a Path2D",
+    );
+  });
+
+  it("rejects invalid styling options", () => {
+    expect(() =>
+      TextIconGenerator.generate({
+        backgroundColor: { type: "linear", stops: [] },
+      }),
+    ).toThrow(
+      "Background color must be a color or a gradient with stops between 0 and 1",
+    );
+    expect(() =>
+      TextIconGenerator.generate({ border: { width: -1, color: "red" } }),
+    ).toThrow("Border width must be a non-negative number");
+    expect(() =>
+      TextIconGenerator.generate({
+        textShadow: { color: "black", blur: -1 },
+      }),
+    ).toThrow("Text shadow blur must be a non-negative number");
+  });
+
+  it("waits for the font before drawing asynchronously", async () => {
+    let resolveLoad: (faces: FontFace[]) => void = () => {};
+    const load = vi.fn(
+      () => new Promise<FontFace[]>((resolve) => (resolveLoad = resolve)),
+    );
+    const check = vi.fn(() => true);
+    const onFontFallback = vi.fn();
+    const canvas = createCanvas();
+
+    const pending = new TextIconGenerator(canvas).generateAsync({
+      text: "A\nB",
+      fontFamily: "Inter",
+      fontWeight: "600",
+      fontSize: 40,
+      fonts: { load, check } as unknown as FontFaceSet,
+      onFontFallback,
+    });
+    await Promise.resolve();
+
+    expect(load).toHaveBeenCalledWith("normal 600 40px Inter", "AB");
+    expect(getCanvasOperations(canvas)).toEqual([]);
+
+    resolveLoad([]);
+    const generated = await pending;
+
+    expect(generated).toBe(canvas);
+    expect(
+      getCanvasOperations(generated).some((operation) =>
+        operation.startsWith("fillText:A@"),
+      ),
+    ).toBe(true);
+    expect(check).toHaveBeenCalledWith("normal 600 40px Inter", "AB");
+    expect(onFontFallback).not.toHaveBeenCalled();
+  });
+
+  it("reports font fallbacks and still draws the icon", async () => {
+    vi.useFakeTimers();
+    try {
+      const onFontFallback = vi.fn();
+      const pending = TextIconGenerator.generateAsync({
+        fontFamily: "Inter",
+        fontTimeout: 100,
+        fonts: {
+          load: () => new Promise<FontFace[]>(() => {}),
+        } as unknown as FontFaceSet,
+        onFontFallback,
+      });
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect((await pending).width).toBe(128);
+      expect(onFontFallback).toHaveBeenCalledWith({
+        font: "normal 400 64px Inter",
+        reason: "timeout",
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const error = new Error("network");
+    const onError = vi.fn();
+    await TextIconGenerator.generateAsync({
+      fonts: { load: () => Promise.reject(error) } as unknown as FontFaceSet,
+      onFontFallback: onError,
+    });
+    expect(onError).toHaveBeenCalledWith({
+      font: "normal 400 64px Helvetica",
+      reason: "error",
+      error,
+    });
+
+    // An unknown family loads no faces and then fails the check
+    const onMissing = vi.fn();
+    const missing = await TextIconGenerator.generateAsync({
+      text: "A",
+      fontFamily: "Intr",
+      fonts: {
+        load: () => Promise.resolve([]),
+        check: () => false,
+      } as unknown as FontFaceSet,
+      onFontFallback: onMissing,
+    });
+    expect(onMissing).toHaveBeenCalledWith({
+      font: "normal 400 64px Intr",
+      reason: "missing",
+    });
+    expect(
+      getCanvasOperations(missing).some((operation) =>
+        operation.startsWith("fillText:A@"),
+      ),
+    ).toBe(true);
+
+    const onUnsupported = vi.fn();
+    await TextIconGenerator.generateAsync({ onFontFallback: onUnsupported });
+    expect(onUnsupported).toHaveBeenCalledWith({
+      font: "normal 400 64px Helvetica",
+      reason: "unsupported",
+    });
+  });
+
+  it("skips font loading without text and rejects invalid timeouts", async () => {
+    const load = vi.fn(() => Promise.resolve([]));
+    const fonts = { load } as unknown as FontFaceSet;
+
+    await TextIconGenerator.generateAsync({ text: null, fonts });
+    expect(load).not.toHaveBeenCalled();
+
+    await expect(
+      TextIconGenerator.generateAsync({ fontTimeout: -1, fonts }),
+    ).rejects.toThrow("Font timeout must be a non-negative number");
+    await expect(
+      TextIconGenerator.generateAsync({ fontSize: 0, fonts }),
+    ).rejects.toThrow("Font size must be a positive number");
+  });
+
+  it("rejects invalid layout options", () => {
+    expect(() =>
+      TextIconGenerator.generate({ autoFit: true, minFontSize: 0 }),
+    ).toThrow("Minimum font size must be a positive number");
+    expect(() =>
+      TextIconGenerator.generate({
+        autoFit: true,
+        minFontSize: 20,
+        maxFontSize: 10,
+      }),
+    ).toThrow(
+      "Maximum font size must be greater than or equal to the minimum font size",
+    );
+    expect(() => TextIconGenerator.generate({ lineHeight: 0 })).toThrow(
+      "Line height must be a positive number",
+    );
+    expect(() => TextIconGenerator.generate({ letterSpacing: NaN })).toThrow(
+      "Letter spacing must be a finite number",
+    );
+    expect(() =>
+      TextIconGenerator.generate({
+        width: 64,
+        height: 64,
+        padding: 32,
+        autoFit: true,
+      }),
+    ).toThrow(
+      "Padding must be non-negative and smaller than half the canvas size",
+    );
+  });
+
+  it("ignores auto-fit bounds when auto-fit is off", () => {
+    expect(() =>
+      new TextIconGenerator(createCanvas(16, 16)).generate({
+        width: 16,
+        height: 16,
+        fontSize: 6,
+      }),
+    ).not.toThrow();
+    expect(() =>
+      TextIconGenerator.generate({ width: 64, height: 64, padding: 32 }),
+    ).not.toThrow();
+  });
 });
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import IcnsGenerator from "../src/generators/icns";
+import { createCanvas, decodeIco, readPngMeta } from "./support/fake-canvas";
+
+function readElements(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const elements: Array<{ type: string; payload: Uint8Array }> = [];
+
+  for (let offset = 8; offset < bytes.length;) {
+    const length = view.getUint32(offset + 4);
+    elements.push({
+      type: Buffer.from(bytes.subarray(offset, offset + 4)).toString("latin1"),
+      payload: bytes.subarray(offset + 8, offset + length),
+    });
+    offset += length;
+  }
+
+  return elements;
+}
+
+describe("IcnsGenerator", () => {
+  it("packs every PNG-backed OSType by default", () => {
+    const canvas = createCanvas(1024, 1024);
+
+    const icns = new IcnsGenerator(canvas).generate();
+    const bytes = decodeIco(icns);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const elements = readElements(bytes);
+
+    expect(icns.startsWith("data:image/icns;base64,")).toBe(true);
+    expect(Buffer.from(bytes.subarray(0, 4)).toString("latin1")).toBe("icns");
+    expect(view.getUint32(4)).toBe(bytes.length);
+    expect(elements.map((element) => element.type)).toEqual([
+      "ic11",
+      "ic12",
+      "ic07",
+      "ic13",
+      "ic08",
+      "ic14",
+      "ic09",
+      "ic10",
+    ]);
+    expect(
+      elements.map(
+        (element) =>
+          readPngMeta(
+            `data:image/png;base64,${Buffer.from(element.payload).toString("base64")}`,
+          ).width,
+      ),
+    ).toEqual([32, 64, 128, 256, 256, 512, 512, 1024]);
+  });
+
+  it("supports a subset of OSTypes", () => {
+    const canvas = createCanvas(256, 256);
+
+    const bytes = decodeIco(new IcnsGenerator(canvas).generate(["ic07"]));
+
+    expect(readElements(bytes).map((element) => element.type)).toEqual([
+      "ic07",
+    ]);
+  });
+
+  it("rejects empty and unsupported OSType lists", () => {
+    const canvas = createCanvas();
+
+    expect(() => new IcnsGenerator(canvas).generate([])).toThrow(RangeError);
+    expect(() =>
+      new IcnsGenerator(canvas).generate(["icp4" as "ic07"]),
+    ).toThrow(RangeError);
+    expect(() =>
+      new IcnsGenerator(canvas).generate(["toString" as "ic07"]),
+    ).toThrow("OSTypes must be one of ic07-ic14");
+  });
+
+  it("produces the same bytes through the binary API", async () => {
+    const canvas = createCanvas(512, 512);
+    const generator = new IcnsGenerator(canvas);
+
+    const bytes = await generator.generateBytes(["ic07", "ic08"]);
+    const blob = await generator.generateBlob(["ic07", "ic08"]);
+
+    expect(Array.from(bytes)).toEqual(
+      Array.from(decodeIco(generator.generate(["ic07", "ic08"]))),
+    );
+    expect(blob.type).toBe("image/icns");
+  });
+});
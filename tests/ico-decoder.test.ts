@@ -0,0 +1,103 @@
+import pngToIco from "png-to-ico";
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+
+import IcoDecoder from "../src/decoders/ico";
+import IcoGenerator from "../src/generators/ico";
+import { createCanvas, decodeIco } from "./support/fake-canvas";
+
+function createTransparentCanvas() {
+  return createCanvas(64, 64, (u) =>
+    u < 0.5 ? [0, 0, 0, 0] : [37, 99, 235, 255],
+  );
+}
+
+describe("IcoDecoder", () => {
+  it("inspects entries written by IcoGenerator", () => {
+    const ico = new IcoGenerator(createCanvas(64, 64)).generate([16, 32, 48], {
+      bitDepth: { 16: 4, 32: 8 },
+    });
+
+    const info = new IcoDecoder(decodeIco(ico)).inspect();
+
+    expect(info.type).toBe("icon");
+    expect(
+      info.entries.map(({ width, height, bitDepth, encoding }) => ({
+        width,
+        height,
+        bitDepth,
+        encoding,
+      })),
+    ).toEqual([
+      { width: 16, height: 16, bitDepth: 4, encoding: "bmp" },
+      { width: 32, height: 32, bitDepth: 8, encoding: "bmp" },
+      { width: 48, height: 48, bitDepth: 32, encoding: "bmp" },
+    ]);
+  });
+
+  it("decodes BMP entries and applies the AND mask", async () => {
+    const ico = new IcoGenerator(createTransparentCanvas()).generate([16, 32], {
+      bitDepth: { 16: 4 },
+    });
+
+    const [paletted, trueColor] = await new IcoDecoder(decodeIco(ico)).decode();
+
+    expect(Array.from(paletted.data.slice(0, 4))[3]).toBe(0);
+    expect(Array.from(paletted.data.slice(15 * 4, 16 * 4))).toEqual([
+      37, 99, 235, 255,
+    ]);
+    expect(trueColor.data[3]).toBe(0);
+    expect(Array.from(trueColor.data.slice(31 * 4, 32 * 4))).toEqual([
+      37, 99, 235, 255,
+    ]);
+  });
+
+  it("decodes embedded PNG entries", async () => {
+    const png = await sharp({
+      create: {
+        width: 256,
+        height: 256,
+        channels: 4,
+        background: "#dc2626",
+      },
+    })
+      .png()
+      .toBuffer();
+    const ico = await pngToIco([png]);
+
+    const decoder = new IcoDecoder(ico);
+    const [entry] = decoder.inspect().entries;
+    const frame = await decoder.decodeEntry(0);
+
+    expect(entry.width).toBe(256);
+    expect(entry.height).toBe(256);
+    expect(frame.data.length).toBe(256 * 256 * 4);
+    expect(Array.from(frame.data.slice(0, 4))).toEqual([220, 38, 38, 255]);
+  });
+
+  it("reports cursor hotspots", () => {
+    const bytes = decodeIco(
+      new IcoGenerator(createCanvas(16, 16)).generate([16]),
+    );
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    view.setUint16(2, 2, true);
+    view.setUint16(10, 3, true);
+    view.setUint16(12, 5, true);
+
+    const info = new IcoDecoder(bytes).inspect();
+
+    expect(info.type).toBe("cursor");
+    expect(info.entries[0].hotspot).toEqual({ x: 3, y: 5 });
+    expect(info.entries[0].bitDepth).toBe(32);
+  });
+
+  it("rejects malformed input", () => {
+    expect(() => new IcoDecoder({} as Uint8Array)).toThrow(TypeError);
+    expect(() => new IcoDecoder(new Uint8Array([0, 0, 3, 0, 1, 0]))).toThrow(
+      "Invalid ICO file: unrecognized header",
+    );
+    expect(() => new IcoDecoder(new Uint8Array([0, 0, 1, 0, 1, 0]))).toThrow(
+      "Invalid ICO file: directory is truncated",
+    );
+  });
+});
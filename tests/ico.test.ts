@@ -10,6 +10,8 @@ function readEntry(bytes: Uint8Array, index: number) {
   return {
     width: view.getUint8(offset),
     height: view.getUint8(offset + 1),
+    colorCount: view.getUint8(offset + 2),
+    bitCount: view.getUint16(offset + 6, true),
     size: view.getUint32(offset + 8, true),
     imageOffset: view.getUint32(offset + 12, true),
   };
@@ -71,4 +73,110 @@ describe("IcoGenerator", () => {
     expect(readEntry(bytes, 1).width).toBe(32);
     expect(readEntry(bytes, 2).width).toBe(48);
   });
+
+  it("derives the AND mask from the alpha channel", () => {
+    const canvas = createCanvas(16, 16, (u) =>
+      u < 0.5 ? [0, 0, 0, 0] : [37, 99, 235, 255],
+    );
+
+    const bytes = decodeIco(new IcoGenerator(canvas).generate([16]));
+    const entry = readEntry(bytes, 0);
+    const maskOffset = entry.imageOffset + 40 + 16 * 16 * 4;
+
+    for (let row = 0; row < 16; row++) {
+      expect(bytes[maskOffset + row * 4]).toBe(0xff);
+      expect(bytes[maskOffset + row * 4 + 1]).toBe(0x00);
+    }
+  });
+
+  it("resamples entries with the selected filter", () => {
+    const canvas = createCanvas(32, 32, (u) =>
+      Math.floor(u * 32) % 2 === 0 ? [0, 0, 0, 255] : [255, 255, 255, 255],
+    );
+
+    const bytes = decodeIco(
+      new IcoGenerator(canvas).generate([16], { filter: "box" }),
+    );
+    const pixelOffset = readEntry(bytes, 0).imageOffset + 40;
+
+    expect(Array.from(bytes.subarray(pixelOffset, pixelOffset + 4))).toEqual([
+      128, 128, 128, 255,
+    ]);
+  });
+
+  it("encodes palettized entries selected per size", () => {
+    const canvas = createCanvas(64, 64, (u, v) => [
+      Math.round(u * 255),
+      Math.round(v * 255),
+      128,
+      255,
+    ]);
+
+    const bytes = decodeIco(
+      new IcoGenerator(canvas).generate([16, 32, 48], {
+        bitDepth: { 16: 4, 32: 8 },
+      }),
+    );
+    const first = readEntry(bytes, 0);
+    const second = readEntry(bytes, 1);
+    const third = readEntry(bytes, 2);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    expect(first.bitCount).toBe(4);
+    expect(first.colorCount).toBe(16);
+    expect(view.getUint16(first.imageOffset + 14, true)).toBe(4);
+    expect(first.size).toBe(40 + 16 * 4 + 8 * 16 + 4 * 16);
+
+    expect(second.bitCount).toBe(8);
+    expect(second.colorCount).toBe(0);
+    expect(view.getUint32(second.imageOffset + 32, true)).toBe(256);
+    expect(second.size).toBe(40 + 256 * 4 + 32 * 32 + 4 * 32);
+
+    expect(third.bitCount).toBe(32);
+  });
+
+  it("reserves a black palette slot for transparent pixels", () => {
+    const canvas = createCanvas(16, 16, (u) =>
+      u < 0.5 ? [0, 0, 0, 0] : [220, 38, 38, 255],
+    );
+
+    const bytes = decodeIco(
+      new IcoGenerator(canvas).generate([16], { bitDepth: 8, dither: false }),
+    );
+    const entry = readEntry(bytes, 0);
+    const paletteOffset = entry.imageOffset + 40;
+    const pixelOffset = paletteOffset + entry.colorCount * 4;
+
+    expect(entry.colorCount).toBe(2);
+    expect(Array.from(bytes.slice(paletteOffset, paletteOffset + 8))).toEqual([
+      0, 0, 0, 0, 38, 38, 220, 0,
+    ]);
+    expect(bytes[pixelOffset]).toBe(0);
+    expect(bytes[pixelOffset + 15]).toBe(1);
+  });
+
+  it("rejects unsupported bit depths", () => {
+    const canvas = createCanvas();
+
+    expect(() =>
+      new IcoGenerator(canvas).generate([16], {
+        bitDepth: 24 as unknown as 32,
+      }),
+    ).toThrow(RangeError);
+  });
+
+  it("produces the same bytes through the binary API", async () => {
+    const canvas = createCanvas(64, 64);
+    const generator = new IcoGenerator(canvas);
+
+    const bytes = await generator.generateBytes([16, 32, 256]);
+    const blob = await generator.generateBlob([16, 32, 256]);
+
+    expect(bytes).toBeInstanceOf(Uint8Array);
+    expect(Array.from(bytes)).toEqual(
+      Array.from(decodeIco(generator.generate([16, 32, 256]))),
+    );
+    expect(blob.type).toBe("image/x-icon");
+    expect(blob.size).toBe(bytes.length);
+  });
 });
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+
+import FaviconComposer from "../src/composer/favicon";
+import LinkManager from "../src/dom/links";
+import { createCanvas } from "./support/fake-canvas";
+import { createDocument, readHead } from "./support/fake-dom";
+
+function createOriginalDocument(): Document {
+  return createDocument([
+    ["meta", { charset: "utf-8" }],
+    ["link", { rel: "icon", href: "/favicon.ico" }],
+    ["link", { rel: "stylesheet", href: "/app.css" }],
+    ["link", { rel: "apple-touch-icon", href: "/apple.png" }],
+  ]);
+}
+
+describe("LinkManager", () => {
+  it("replaces favicon links with the bundle's sized variants", () => {
+    const document = createOriginalDocument();
+    const bundle = new FaviconComposer(createCanvas(64, 64)).bundle({
+      pngSizes: [16, 32, 180, 192],
+    });
+
+    const changed = new LinkManager(document).apply(bundle);
+
+    expect(changed).toBe(true);
+    expect(readHead(document)).toEqual([
+      '<meta charset="utf-8">',
+      '<link rel="stylesheet" href="/app.css">',
+      `<link rel="icon" href="${bundle.ico}" sizes="any">`,
+      `<link rel="icon" type="image/png" sizes="16x16" href="${bundle.pngs[16]}">`,
+      `<link rel="icon" type="image/png" sizes="32x32" href="${bundle.pngs[32]}">`,
+      `<link rel="apple-touch-icon" sizes="180x180" href="${bundle.pngs[180]}">`,
+    ]);
+  });
+
+  it("restores the original links in their original positions", () => {
+    const document = createOriginalDocument();
+    const original = readHead(document);
+    const manager = new LinkManager(document);
+    const favicon = new FaviconComposer(createCanvas(64, 64));
+
+    manager.apply(favicon.bundle());
+    manager.apply(favicon.png(32));
+    manager.restore();
+
+    expect(readHead(document)).toEqual(original);
+  });
+
+  it("skips updates that would apply the same links", () => {
+    const document = createDocument();
+    const manager = new LinkManager(document);
+    const png = new FaviconComposer(createCanvas(64, 64)).png(32);
+
+    expect(manager.apply(png)).toBe(true);
+    expect(manager.apply(png)).toBe(false);
+    expect(readHead(document)).toEqual([
+      `<link rel="icon" type="image/png" href="${png}">`,
+    ]);
+  });
+
+  it("recreates link elements when the icon changes", () => {
+    const document = createDocument();
+    const manager = new LinkManager(document);
+
+    manager.apply("/first.png");
+    manager.apply("/second.png");
+
+    expect(readHead(document)).toEqual([
+      '<link rel="icon" href="/second.png">',
+    ]);
+  });
+
+  it("requires a document", () => {
+    const globalObject = globalThis as { document?: unknown };
+    const original = globalObject.document;
+    delete globalObject.document;
+
+    try {
+      expect(() => new LinkManager()).toThrow("requires a document");
+    } finally {
+      globalObject.document = original;
+    }
+  });
+});
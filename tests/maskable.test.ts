@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import Maskable, { resolveMaskableVariants } from "../src/composer/maskable";
+import PngGenerator from "../src/generators/png";
+import {
+  createCanvas,
+  getCanvasOperations,
+  readPngMeta,
+} from "./support/fake-canvas";
+
+describe("Maskable", () => {
+  it("fits the source into the safe zone on a background", () => {
+    const canvas = new Maskable().composite(createCanvas(64, 64), 192);
+
+    expect(canvas.width).toBe(192);
+    expect(getCanvasOperations(canvas)).toEqual([
+      "fillRect:0,0,192,192",
+      "drawImage:109x109->109x109",
+    ]);
+  });
+
+  it("keeps the aspect ratio and honours a custom safe zone", () => {
+    const canvas = new Maskable({ safeZone: 0.5 }).composite(
+      createCanvas(200, 100),
+      100,
+    );
+
+    expect(getCanvasOperations(canvas)).toContain("drawImage:35x18->35x18");
+  });
+
+  it("renders maskable PNGs through PngGenerator", () => {
+    const dataUrl = new PngGenerator(createCanvas(64, 64)).generate(48, {
+      maskable: { backgroundColor: "#2563eb" },
+    });
+
+    expect(readPngMeta(dataUrl)).toMatchObject({ width: 48, height: 48 });
+  });
+
+  it("resolves the default variants", () => {
+    expect(resolveMaskableVariants(false)).toBeUndefined();
+    expect(resolveMaskableVariants(true)).toEqual({
+      sizes: [192, 512],
+      options: {},
+    });
+    expect(
+      resolveMaskableVariants({ sizes: [256], backgroundColor: "#000" }),
+    ).toEqual({ sizes: [256], options: { backgroundColor: "#000" } });
+  });
+
+  it("rejects invalid safe zones and sizes", () => {
+    expect(() => new Maskable({ safeZone: 0 })).toThrow(
+      "Safe zone must be between 0 and 1",
+    );
+    expect(() => new Maskable({ safeZone: 1.2 })).toThrow(RangeError);
+    expect(() => new Maskable().composite(createCanvas(8, 8), 0)).toThrow(
+      "Size must be a positive integer",
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from "vitest";
+
+import MonogramGenerator, {
+  DEFAULT_MONOGRAM_PALETTE,
+} from "../src/generators/monogram";
+import { createCanvas, getCanvasOperations } from "./support/fake-canvas";
+
+describe("MonogramGenerator", () => {
+  it("derives initials from multi-word and single-word names", () => {
+    expect(MonogramGenerator.initials("Ada Lovelace")).toBe("AL");
+    expect(MonogramGenerator.initials("  jean-luc  picard ")).toBe("JP");
+    expect(MonogramGenerator.initials("Grace Brewster Murray Hopper")).toBe(
+      "GH",
+    );
+    expect(MonogramGenerator.initials("Grace Brewster Murray Hopper", 3)).toBe(
+      "GBH",
+    );
+    expect(MonogramGenerator.initials("acme")).toBe("A");
+    expect(MonogramGenerator.initials("GitHub")).toBe("GH");
+    expect(MonogramGenerator.initials("")).toBe("");
+  });
+
+  it("handles Unicode names", () => {
+    expect(MonogramGenerator.initials("élodie dupont")).toBe("ÉD");
+    // Decomposed "e" + combining acute accent stays one initial
+    expect(MonogramGenerator.initials("e\u0301mile zola")).toBe("ÉZ");
+    expect(MonogramGenerator.initials("김 철수")).toBe("김철");
+    expect(MonogramGenerator.initials("🚀 Rocket Labs")).toBe("RL");
+    expect(MonogramGenerator.initials("🚀")).toBe("🚀");
+  });
+
+  it("picks a stable color regardless of case and spacing", () => {
+    const colors = MonogramGenerator.colors("Acme Corp");
+
+    expect(DEFAULT_MONOGRAM_PALETTE).toContain(colors.backgroundColor);
+    expect(MonogramGenerator.colors("  acme   CORP")).toEqual(colors);
+    expect(
+      new Set(
+        ["a", "b", "c", "d", "e", "f", "g", "h"].map(
+          (name) => MonogramGenerator.colors(name).backgroundColor,
+        ),
+      ).size,
+    ).toBeGreaterThan(1);
+  });
+
+  it("chooses the font color with the higher contrast", () => {
+    expect(MonogramGenerator.colors("x", ["#fde047"])).toEqual({
+      backgroundColor: "#fde047",
+      fontColor: "#111827",
+    });
+    expect(MonogramGenerator.colors("x", ["#1e3a8a"])).toEqual({
+      backgroundColor: "#1e3a8a",
+      fontColor: "#ffffff",
+    });
+    expect(MonogramGenerator.colors("x", ["#fff"]).fontColor).toBe("#111827");
+  });
+
+  it("draws the monogram with derived colors and explicit overrides", () => {
+    const options = MonogramGenerator.resolve({
+      name: "Ada Lovelace",
+      palette: ["#1e3a8a"],
+      shape: "circle",
+    });
+
+    expect(options).toEqual({
+      autoFit: true,
+      fontWeight: "600",
+      backgroundColor: "#1e3a8a",
+      fontColor: "#ffffff",
+      shape: "circle",
+      text: "AL",
+    });
+    expect(
+      MonogramGenerator.resolve({ name: "Ada", fontColor: "red" }).fontColor,
+    ).toBe("red");
+
+    const canvas = new MonogramGenerator(createCanvas()).generate({
+      name: "Ada Lovelace",
+      width: 32,
+      height: 32,
+    });
+    expect(
+      getCanvasOperations(canvas).some((operation) =>
+        operation.startsWith("fillText:AL@"),
+      ),
+    ).toBe(true);
+    expect(MonogramGenerator.svg({ name: "Ada Lovelace" })).toContain(
+      ">AL</tspan>",
+    );
+  });
+
+  it("loads the font before drawing asynchronously", async () => {
+    const load = vi.fn(() => Promise.resolve([]));
+
+    const canvas = await MonogramGenerator.generateAsync({
+      name: "Ada Lovelace",
+      fontFamily: "Inter",
+      fonts: { load } as unknown as FontFaceSet,
+    });
+
+    expect(load).toHaveBeenCalledWith("normal 600 64px Inter", "AL");
+    expect(
+      getCanvasOperations(canvas).some((operation) =>
+        operation.startsWith("fillText:AL@"),
+      ),
+    ).toBe(true);
+  });
+
+  it("rejects invalid names and palettes", () => {
+    expect(() => MonogramGenerator.resolve({ name: "   " })).toThrow(
+      "Name must contain at least one character",
+    );
+    expect(() =>
+      MonogramGenerator.resolve({ name: 42 as unknown as string }),
+    ).toThrow("Name must be a string");
+    expect(() => MonogramGenerator.initials("Ada", 0)).toThrow(
+      "Max initials must be a positive integer",
+    );
+    expect(() => MonogramGenerator.colors("Ada", [])).toThrow(
+      "Palette must contain at least one color",
+    );
+    expect(() => MonogramGenerator.colors("Ada", ["red"])).toThrow(
+      'Palette colors must be #rgb or #rrggbb hex values, got "red"',
+    );
+  });
+});
@@ -0,0 +1,165 @@
+import { crc32 } from "node:zlib";
+
+import { describe, expect, it } from "vitest";
+
+import FaviconComposer from "../src/composer/favicon";
+import PackageExporter from "../src/generators/package";
+import { getPresetBlueprint } from "../src/presets";
+import { createCanvas, readPngMetaFromBytes } from "./support/fake-canvas";
+
+interface ZipFile {
+  name: string;
+  data: Uint8Array;
+  crc: number;
+}
+
+function readZip(bytes: Uint8Array): ZipFile[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files: ZipFile[] = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50);
+    const crc = view.getUint32(offset + 16, true);
+    const size = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    const dataOffset =
+      localOffset + 30 + view.getUint16(localOffset + 26, true);
+
+    files.push({
+      name,
+      data: bytes.subarray(dataOffset, dataOffset + size),
+      crc,
+    });
+    offset += 46 + nameLength;
+  }
+
+  return files;
+}
+
+function readText(files: ZipFile[], name: string): string {
+  const file = files.find((entry) => entry.name === name);
+  if (!file) throw new Error(`Missing ${name}`);
+  return new TextDecoder().decode(file.data);
+}
+
+describe("PackageExporter", () => {
+  it("uses the CLI preset file names", async () => {
+    const canvas = createCanvas(512, 512);
+
+    const files = readZip(
+      await new PackageExporter(canvas).generateBytes({
+        preset: "web-app",
+        baseName: "logo",
+      }),
+    );
+    const blueprint = getPresetBlueprint("web-app", "logo");
+
+    expect(files.map((file) => file.name)).toEqual([
+      ...blueprint.pngOutputs.map((output) => output.filename),
+      "logo.ico",
+      "logo.html",
+      "manifest.webmanifest",
+    ]);
+    expect(
+      readPngMetaFromBytes(
+        files.find((file) => file.name === "apple-touch-icon.png")!.data,
+      ),
+    ).toMatchObject({ width: 180, height: 180 });
+  });
+
+  it("stores valid checksums for every file", async () => {
+    const files = readZip(
+      await new PackageExporter(createCanvas(64, 64)).generateBytes(),
+    );
+
+    for (const file of files) {
+      expect(file.crc).toBe(crc32(file.data));
+    }
+  });
+
+  it("renders the HTML snippet and manifest with custom fields", async () => {
+    const files = readZip(
+      await new PackageExporter(createCanvas(256, 256)).generateBytes({
+        manifest: { name: "Favium", themeColor: "#2563eb" },
+      }),
+    );
+    const manifest = JSON.parse(readText(files, "manifest.webmanifest"));
+
+    expect(readText(files, "favicon.html")).toContain(
+      '<link rel="icon" href="./favicon.ico" sizes="any">',
+    );
+    expect(manifest).toMatchObject({
+      name: "Favium",
+      short_name: "Favium",
+      theme_color: "#2563eb",
+      background_color: "#ffffff",
+    });
+    expect(manifest.icons).toHaveLength(2);
+  });
+
+  it("supports custom sizes without a manifest", async () => {
+    const files = readZip(
+      await new PackageExporter(createCanvas(64, 64)).generateBytes({
+        preset: "custom",
+        baseName: "app",
+        pngSizes: [32, 180],
+        icoSizes: [16],
+      }),
+    );
+
+    expect(files.map((file) => file.name)).toEqual([
+      "app-32x32.png",
+      "app-180x180.png",
+      "app.ico",
+      "app.html",
+    ]);
+  });
+
+  it("adds maskable variants on the manifest background", async () => {
+    const options = {
+      preset: "custom" as const,
+      baseName: "app",
+      pngSizes: [32],
+      maskable: { sizes: [192] },
+      manifest: { backgroundColor: "#0f172a" },
+    };
+    const files = readZip(
+      await new PackageExporter(createCanvas(64, 64)).generateBytes(options),
+    );
+    const manifest = JSON.parse(readText(files, "manifest.webmanifest"));
+
+    expect(PackageExporter.layout(options).maskableOptions).toEqual({
+      backgroundColor: "#0f172a",
+      safeZone: 0.8,
+    });
+    expect(files.map((file) => file.name)).toContain(
+      "app-maskable-192x192.png",
+    );
+    expect(manifest.icons).toEqual([
+      {
+        src: "./app-maskable-192x192.png",
+        sizes: "192x192",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ]);
+  });
+
+  it("exports a ZIP Blob through FaviconComposer", async () => {
+    const zip = await new FaviconComposer(createCanvas(128, 128)).zip();
+
+    expect(zip.type).toBe("application/zip");
+    expect(
+      readZip(new Uint8Array(await zip.arrayBuffer())).map((file) => file.name),
+    ).toContain("android-chrome-512x512.png");
+  });
+});
@@ -0,0 +1,105 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+
+import PngDecoder from "../src/decoders/png";
+
+async function createPng(
+  options: Parameters<sharp.Sharp["png"]>[0] = {},
+): Promise<Uint8Array> {
+  const pixels = Buffer.alloc(8 * 8 * 4);
+
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const offset = (y * 8 + x) * 4;
+      pixels[offset] = x < 4 ? 220 : 37;
+      pixels[offset + 1] = x < 4 ? 38 : 99;
+      pixels[offset + 2] = x < 4 ? 38 : 235;
+      pixels[offset + 3] = y < 4 ? 255 : 0;
+    }
+  }
+
+  return new Uint8Array(
+    await sharp(pixels, { raw: { width: 8, height: 8, channels: 4 } })
+      .png(options)
+      .toBuffer(),
+  );
+}
+
+function pixelAt(data: Uint8ClampedArray, x: number, y: number): number[] {
+  const offset = (y * 8 + x) * 4;
+  return Array.from(data.slice(offset, offset + 4));
+}
+
+describe("PngDecoder", () => {
+  it("reads the IHDR header", async () => {
+    const header = new PngDecoder(await createPng()).readHeader();
+
+    expect(header).toMatchObject({
+      width: 8,
+      height: 8,
+      bitDepth: 8,
+      colorType: 6,
+      channels: 4,
+      interlaced: false,
+    });
+  });
+
+  it("decodes RGBA pixels", async () => {
+    const { width, height, data } = await new PngDecoder(
+      await createPng(),
+    ).decode();
+
+    expect(width).toBe(8);
+    expect(height).toBe(8);
+    expect(pixelAt(data, 0, 0)).toEqual([220, 38, 38, 255]);
+    expect(pixelAt(data, 7, 0)).toEqual([37, 99, 235, 255]);
+    expect(pixelAt(data, 0, 7)[3]).toBe(0);
+  });
+
+  it("decodes palette and interlaced images", async () => {
+    const palette = await new PngDecoder(
+      await createPng({ palette: true }),
+    ).decode();
+    const interlaced = await new PngDecoder(
+      await createPng({ progressive: true }),
+    ).decode();
+
+    expect(pixelAt(palette.data, 7, 0)).toEqual([37, 99, 235, 255]);
+    expect(pixelAt(palette.data, 7, 7)[3]).toBe(0);
+    expect(pixelAt(interlaced.data, 0, 0)).toEqual([220, 38, 38, 255]);
+    expect(pixelAt(interlaced.data, 5, 3)).toEqual([37, 99, 235, 255]);
+    expect(pixelAt(interlaced.data, 5, 6)[3]).toBe(0);
+  });
+
+  it("rejects absurd dimensions before allocating pixels", async () => {
+    const bytes = await createPng();
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    view.setUint32(16, 100_000);
+    view.setUint32(20, 100_000);
+
+    await expect(new PngDecoder(bytes).decode()).rejects.toThrow(
+      "Unsupported PNG size: 100000x100000 (at most 67108864 pixels)",
+    );
+
+    view.setUint32(16, 0);
+    await expect(new PngDecoder(bytes).decode()).rejects.toThrow(
+      "Invalid PNG data: zero width or height",
+    );
+  });
+
+  it("rejects indexed-color images without a palette", async () => {
+    const bytes = await createPng({ palette: true });
+    const offset = Buffer.from(bytes).indexOf("PLTE");
+    bytes.set([0x70, 0x4c, 0x54, 0x78], offset); // "pLTx", an unknown chunk
+
+    await expect(new PngDecoder(bytes).decode()).rejects.toThrow(
+      "Invalid PNG data: missing PLTE chunk",
+    );
+  });
+
+  it("rejects non-PNG data", () => {
+    expect(() => new PngDecoder(new Uint8Array([1, 2, 3]))).toThrow(
+      "Invalid PNG data: missing signature",
+    );
+  });
+});
@@ -1,7 +1,11 @@
 import { describe, expect, it } from "vitest";
 
 import PngGenerator from "../src/generators/png";
-import { createCanvas, readPngMeta } from "./support/fake-canvas";
+import {
+  createCanvas,
+  readPngMeta,
+  readPngMetaFromBytes,
+} from "./support/fake-canvas";
 
 describe("PngGenerator", () => {
   it("generates a PNG data URL at the requested size", () => {
@@ -23,4 +27,22 @@ describe("PngGenerator", () => {
 
     expect(() => new PngGenerator(canvas).generate(-1)).toThrow(RangeError);
   });
+
+  it("generates PNG bytes and Blobs at the requested size", async () => {
+    const canvas = createCanvas(24, 24);
+    const generator = new PngGenerator(canvas);
+
+    const bytes = await generator.generateBytes(64);
+    const blob = await generator.generateBlob(32);
+
+    expect(readPngMetaFromBytes(bytes)).toMatchObject({
+      width: 64,
+      height: 64,
+    });
+    expect(blob.type).toBe("image/png");
+    expect(
+      readPngMetaFromBytes(new Uint8Array(await blob.arrayBuffer())),
+    ).toMatchObject({ width: 32, height: 32 });
+    await expect(generator.generateBytes(0)).rejects.toThrow(RangeError);
+  });
 });
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+
+import FaviconComposer from "../src/composer/favicon";
+import { renderHtmlSnippet, renderManifest } from "../src/presets";
+import { createCanvas } from "./support/fake-canvas";
+
+describe("renderHtmlSnippet", () => {
+  it("names bundle sizes after the default preset", () => {
+    const bundle = new FaviconComposer(createCanvas(64, 64)).bundle();
+
+    expect(renderHtmlSnippet(bundle)).toBe(
+      [
+        '<link rel="icon" href="./favicon.ico" sizes="any">',
+        '<link rel="icon" type="image/png" sizes="16x16" href="./favicon-16x16.png">',
+        '<link rel="icon" type="image/png" sizes="32x32" href="./favicon-32x32.png">',
+        '<link rel="apple-touch-icon" sizes="180x180" href="./apple-touch-icon.png">',
+        '<link rel="manifest" href="./manifest.webmanifest">',
+      ].join("\n"),
+    );
+  });
+
+  it("falls back to custom names and applies the base path", () => {
+    const bundle = new FaviconComposer(createCanvas(64, 64)).bundle({
+      pngSizes: [48, 180],
+    });
+
+    const html = renderHtmlSnippet(bundle, {
+      baseName: "logo",
+      basePath: "/static/icons/",
+    });
+
+    expect(html).toContain('href="/static/icons/logo.ico"');
+    expect(html).toContain(
+      '<link rel="icon" type="image/png" sizes="48x48" href="/static/icons/logo-48x48.png">',
+    );
+    expect(html).not.toContain('rel="manifest"');
+  });
+
+  it("escapes attribute values", () => {
+    const bundle = new FaviconComposer(createCanvas(64, 64)).bundle({
+      pngSizes: [32],
+    });
+
+    const html = renderHtmlSnippet(bundle, {
+      baseName: 'a"b',
+      basePath: "/?x=1&y=<2>/",
+    });
+
+    expect(html).toContain('href="/?x=1&amp;y=&lt;2&gt;/a&quot;b.ico"');
+    expect(html).not.toContain('a"b');
+  });
+
+  it("inlines data URLs when requested", () => {
+    const bundle = new FaviconComposer(createCanvas(64, 64)).bundle({
+      pngSizes: [32],
+    });
+
+    const html = renderHtmlSnippet(bundle, { inline: true });
+
+    expect(html).toContain(`href="${bundle.ico}"`);
+    expect(html).toContain(`href="${bundle.pngs[32]}"`);
+  });
+
+  it("rejects inline hrefs for binary bundles", async () => {
+    const bundle = await new FaviconComposer(
+      createCanvas(64, 64),
+    ).bundleBlobs();
+
+    expect(() => renderHtmlSnippet(bundle, { inline: true })).toThrow(
+      TypeError,
+    );
+    expect(renderHtmlSnippet(bundle)).toContain('href="./favicon-32x32.png"');
+  });
+});
+
+describe("renderManifest", () => {
+  it("lists manifest icons of a bundle with default fields", () => {
+    const bundle = new FaviconComposer(createCanvas(64, 64)).bundle();
+
+    const manifest = JSON.parse(
+      renderManifest(bundle, {
+        preset: "web-app",
+        manifest: { name: "Favium", display: "minimal-ui" },
+      }),
+    );
+
+    expect(manifest).toMatchObject({
+      name: "Favium",
+      short_name: "Favium",
+      display: "minimal-ui",
+      start_url: "/",
+    });
+    expect(manifest.icons.map((icon: { src: string }) => icon.src)).toEqual([
+      "./android-chrome-192x192.png",
+      "./android-chrome-512x512.png",
+    ]);
+  });
+
+  it("lists maskable variants next to the any icons", () => {
+    const bundle = new FaviconComposer(createCanvas(64, 64)).bundle({
+      pngSizes: [192, 512],
+      maskable: true,
+    });
+
+    const manifest = JSON.parse(renderManifest(bundle));
+
+    expect(manifest.icons).toEqual([
+      {
+        src: "./android-chrome-192x192.png",
+        sizes: "192x192",
+        type: "image/png",
+        purpose: "any",
+      },
+      {
+        src: "./android-chrome-512x512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "any",
+      },
+      {
+        src: "./maskable-icon-192x192.png",
+        sizes: "192x192",
+        type: "image/png",
+        purpose: "maskable",
+      },
+      {
+        src: "./maskable-icon-512x512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ]);
+    expect(
+      JSON.parse(renderManifest(bundle, { inline: true })).icons[2].src,
+    ).toBe(bundle.maskable![192]);
+    expect(renderHtmlSnippet(bundle)).not.toContain("maskable");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import Quantize from "../src/utils/quantize";
+
+function createPixels(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number, number, number],
+): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(pixel(x, y), (y * width + x) * 4);
+    }
+  }
+
+  return data;
+}
+
+describe("Quantize", () => {
+  it("keeps exact colors when the palette is large enough", () => {
+    const data = createPixels(4, 4, (x) =>
+      x < 2 ? [255, 0, 0, 255] : [0, 0, 255, 255],
+    );
+
+    const { palette, indices } = new Quantize(data, 4, 4).quantize(16);
+
+    expect(Array.from(palette)).toEqual([255, 0, 0, 0, 0, 255]);
+    expect(Array.from(indices.slice(0, 4))).toEqual([0, 0, 1, 1]);
+  });
+
+  it("limits gradients to the requested palette size", () => {
+    const data = createPixels(32, 32, (x, y) => [x * 8, y * 8, 64, 255]);
+
+    const { palette, indices } = new Quantize(data, 32, 32).quantize(16);
+
+    expect(palette.length).toBe(16 * 3);
+    expect(Math.max(...indices)).toBeLessThan(16);
+  });
+
+  it("rejects mismatched data and palette sizes", () => {
+    const data = createPixels(2, 2, () => [0, 0, 0, 255]);
+
+    expect(() => new Quantize(data, 3, 3)).toThrow(RangeError);
+    expect(() => new Quantize(data, 2, 2).quantize(0)).toThrow(RangeError);
+    expect(() => new Quantize(data, 2, 2).quantize(257)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import Resample from "../src/utils/resample";
+
+function createPixels(
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number, number, number],
+): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(pixel(x, y), (y * width + x) * 4);
+    }
+  }
+
+  return data;
+}
+
+function pixelAt(
+  data: Uint8ClampedArray,
+  width: number,
+  x: number,
+  y: number,
+): number[] {
+  const index = (y * width + x) * 4;
+  return Array.from(data.subarray(index, index + 4));
+}
+
+describe("Resample", () => {
+  it("keeps solid colors intact with every filter", () => {
+    const data = createPixels(16, 16, () => [200, 100, 50, 255]);
+
+    for (const filter of [
+      "nearest",
+      "box",
+      "bilinear",
+      "mitchell",
+      "lanczos3",
+    ] as const) {
+      const result = new Resample(data, 16, 16).resample(5, 3, filter);
+
+      expect(result.length).toBe(5 * 3 * 4);
+      expect(pixelAt(result, 5, 2, 1)).toEqual([200, 100, 50, 255]);
+    }
+  });
+
+  it("averages source pixels with the box filter", () => {
+    const data = createPixels(4, 4, (x) =>
+      x % 2 === 0 ? [0, 0, 0, 255] : [255, 255, 255, 255],
+    );
+
+    const result = new Resample(data, 4, 4).resample(2, 2, "box");
+
+    expect(pixelAt(result, 2, 0, 0)).toEqual([128, 128, 128, 255]);
+  });
+
+  it("picks source pixels without blending with the nearest filter", () => {
+    const data = createPixels(2, 1, (x) =>
+      x === 0 ? [255, 0, 0, 255] : [0, 0, 255, 255],
+    );
+
+    const result = new Resample(data, 2, 1).resample(4, 1, "nearest");
+
+    expect(pixelAt(result, 4, 1, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(result, 4, 2, 0)).toEqual([0, 0, 255, 255]);
+  });
+
+  it("does not bleed the color of transparent pixels", () => {
+    const data = createPixels(2, 1, (x) =>
+      x === 0 ? [255, 0, 0, 255] : [0, 255, 0, 0],
+    );
+
+    const result = new Resample(data, 2, 1).resample(1, 1, "bilinear");
+
+    expect(pixelAt(result, 1, 0, 0)).toEqual([255, 0, 0, 128]);
+  });
+
+  it("is deterministic for the same input", () => {
+    const data = createPixels(64, 64, (x, y) => [x * 4, y * 4, 128, 255]);
+
+    const first = new Resample(data, 64, 64).resample(16, 16, "lanczos3");
+    const second = new Resample(data, 64, 64).resample(16, 16, "lanczos3");
+
+    expect(Array.from(first)).toEqual(Array.from(second));
+  });
+
+  it("rejects unknown filters and invalid sizes", () => {
+    const resample = new Resample(new Uint8ClampedArray(16), 2, 2);
+
+    expect(() => resample.resample(1, 1, "cubic" as never)).toThrow(RangeError);
+    expect(() => resample.resample(0, 1, "box")).toThrow(RangeError);
+    expect(() => new Resample(new Uint8ClampedArray(4), 2, 2)).toThrow(
+      RangeError,
+    );
+  });
+});
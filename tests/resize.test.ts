@@ -1,7 +1,11 @@
 import { describe, expect, it } from "vitest";
 
 import Resize from "../src/utils/resize";
-import { createCanvas } from "./support/fake-canvas";
+import {
+  createCanvas,
+  createImageBitmap,
+  getCanvasOperations,
+} from "./support/fake-canvas";
 
 describe("Resize", () => {
   it("returns the requested dimensions when upscaling", () => {
@@ -27,4 +31,38 @@ describe("Resize", () => {
 
     expect(() => new Resize(canvas).resize(0, 32)).toThrow(RangeError);
   });
+
+  it("resamples pixel data instead of drawing when a filter is given", () => {
+    const canvas = createCanvas(64, 64, (u) =>
+      u < 0.5 ? [0, 0, 0, 255] : [255, 255, 255, 255],
+    );
+
+    const resized = new Resize(canvas).resize(2, 2, "box");
+    const pixels = resized.getContext("2d")!.getImageData(0, 0, 2, 2).data;
+
+    expect(resized.width).toBe(2);
+    expect(getCanvasOperations(resized)).toEqual(["putImageData:2x2@0,0"]);
+    expect(Array.from(pixels.subarray(0, 8))).toEqual([
+      0, 0, 0, 255, 255, 255, 255, 255,
+    ]);
+  });
+
+  it("copies bitmaps before resampling them", () => {
+    const resized = new Resize(createImageBitmap(32, 32)).resize(
+      16,
+      16,
+      "mitchell",
+    );
+
+    expect(resized.width).toBe(16);
+    expect(getCanvasOperations(resized)).toEqual(["putImageData:16x16@0,0"]);
+  });
+
+  it("rejects unknown filters", () => {
+    const canvas = createCanvas();
+
+    expect(() => new Resize(canvas).resize(32, 32, "cubic" as never)).toThrow(
+      RangeError,
+    );
+  });
 });
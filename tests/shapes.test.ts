@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+
+import { getContext2d } from "../src/utils/canvas";
+import { getShapeCommands, toPathData, traceShape } from "../src/utils/shapes";
+import { createCanvas, getCanvasOperations } from "./support/fake-canvas";
+
+describe("shapes", () => {
+  it("builds a pointy-top hexagon touching the top and bottom edges", () => {
+    const commands = getShapeCommands("hexagon");
+
+    expect(commands).toHaveLength(7);
+    expect(commands[0]).toEqual(["M", 0.5, 0]);
+    expect(commands[3]).toEqual(["L", 0.5, 1]);
+    expect(commands[6]).toEqual(["Z"]);
+  });
+
+  it("samples a superellipse squircle", () => {
+    const commands = getShapeCommands("squircle");
+    const points = commands.filter(
+      (command): command is ["M" | "L", number, number] => command.length === 3,
+    );
+
+    expect(points).toHaveLength(128);
+    expect(points[0]).toEqual(["M", 1, 0.5]);
+    expect(points[32]).toEqual(["L", 0.5, 1]);
+    // The diagonal sits further out than a circle's 0.854
+    expect(points[16][1]).toBeCloseTo(0.5 + 0.5 * 2 ** -0.2, 6);
+    expect(
+      points.every(([, x, y]) => x >= 0 && x <= 1 && y >= 0 && y <= 1),
+    ).toBe(true);
+  });
+
+  it("scales commands to a square on a canvas and in SVG path data", () => {
+    const canvas = createCanvas(64, 32);
+    const commands = getShapeCommands("shield");
+
+    traceShape(getContext2d(canvas), commands, 16, 0, 32);
+
+    expect(getCanvasOperations(canvas).slice(0, 3)).toEqual([
+      "beginPath",
+      "moveTo:19.2,1.28",
+      "lineTo:44.8,1.28",
+    ]);
+    expect(toPathData(getShapeCommands("circle"), 16, 0, 32)).toBe(
+      "M 48 16 C 48 24.837 40.837 32 32 32 C 23.163 32 16 24.837 16 16 C 16 7.163 23.163 0 32 0 C 40.837 0 48 7.163 48 16 Z",
+    );
+  });
+});
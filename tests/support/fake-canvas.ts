@@ -1,16 +1,40 @@
 type DrawImageSource = {
   width: number;
   height: number;
+  pixels?: PixelSource;
 };
 
+/** Returns RGBA for a pixel, given normalized (0..1) coordinates. */
+export type PixelSource = (
+  u: number,
+  v: number,
+) => [number, number, number, number];
+
+const DEFAULT_PIXEL: PixelSource = () => [255, 64, 32, 255];
+
+class FakeCanvasGradient {
+  constructor(private readonly operations: string[]) {}
+
+  public addColorStop(offset: number, color: string): void {
+    this.operations.push(`addColorStop:${offset},${color}`);
+  }
+}
+
 class FakeCanvasRenderingContext2D {
-  public fillStyle = "";
+  public fillStyle: string | FakeCanvasGradient = "";
+  public strokeStyle: string | FakeCanvasGradient = "";
+  public lineWidth = 1;
+  public lineJoin: CanvasLineJoin = "miter";
+  public shadowColor = "rgba(0, 0, 0, 0)";
+  public shadowBlur = 0;
+  public shadowOffsetX = 0;
+  public shadowOffsetY = 0;
   public font = "";
   public textBaseline: CanvasTextBaseline = "alphabetic";
   public textAlign: CanvasTextAlign = "start";
   public readonly operations: string[] = [];
 
-  constructor(private readonly canvas: FakeCanvas) {}
+  constructor(private readonly canvas: FakeSurface) {}
 
   public scale(x: number, y: number): void {
     this.operations.push(`scale:${x}x${y}`);
@@ -31,6 +55,10 @@ class FakeCanvasRenderingContext2D {
     this.operations.push(`fillRect:${x},${y},${width},${height}`);
   }
 
+  public clearRect(x: number, y: number, width: number, height: number): void {
+    this.operations.push(`clearRect:${x},${y},${width},${height}`);
+  }
+
   public beginPath(): void {
     this.operations.push("beginPath");
   }
@@ -49,14 +77,71 @@ class FakeCanvasRenderingContext2D {
     this.operations.push(`arcTo:${x1},${y1},${x2},${y2},${radius}`);
   }
 
+  public lineTo(x: number, y: number): void {
+    this.operations.push(`lineTo:${x},${y}`);
+  }
+
+  public bezierCurveTo(
+    cp1x: number,
+    cp1y: number,
+    cp2x: number,
+    cp2y: number,
+    x: number,
+    y: number,
+  ): void {
+    this.operations.push(
+      `bezierCurveTo:${cp1x},${cp1y},${cp2x},${cp2y},${x},${y}`,
+    );
+  }
+
   public closePath(): void {
     this.operations.push("closePath");
   }
 
+  public save(): void {
+    this.operations.push("save");
+  }
+
+  public restore(): void {
+    this.operations.push("restore");
+  }
+
+  public clip(path?: object): void {
+    this.operations.push(path ? "clip:path" : "clip");
+  }
+
   public fill(): void {
     this.operations.push("fill");
   }
 
+  public stroke(path?: object): void {
+    this.operations.push(`stroke${path ? ":path" : ""}:${this.lineWidth}`);
+  }
+
+  public createLinearGradient(
+    x0: number,
+    y0: number,
+    x1: number,
+    y1: number,
+  ): FakeCanvasGradient {
+    this.operations.push(`createLinearGradient:${x0},${y0},${x1},${y1}`);
+    return new FakeCanvasGradient(this.operations);
+  }
+
+  public createRadialGradient(
+    x0: number,
+    y0: number,
+    r0: number,
+    x1: number,
+    y1: number,
+    r1: number,
+  ): FakeCanvasGradient {
+    this.operations.push(
+      `createRadialGradient:${x0},${y0},${r0},${x1},${y1},${r1}`,
+    );
+    return new FakeCanvasGradient(this.operations);
+  }
+
   public drawImage(
     image: DrawImageSource,
     _dx: number,
@@ -67,16 +152,26 @@ class FakeCanvasRenderingContext2D {
     this.operations.push(
       `drawImage:${image.width}x${image.height}->${dWidth}x${dHeight}`,
     );
+    this.canvas.pixels = image.pixels ?? this.canvas.pixels;
   }
 
   public measureText(text: string): TextMetrics {
-    return { width: Math.max(text.length, 1) * 10 } as TextMetrics;
+    // Glyphs are 0.6em wide when the font has a pixel size, 10px otherwise
+    const fontSize = /(\d+(?:\.\d+)?)px/.exec(this.font)?.[1];
+    const glyphWidth = fontSize ? Number(fontSize) * 0.6 : 10;
+    return {
+      width: Math.max(Array.from(text).length, 1) * glyphWidth,
+    } as TextMetrics;
   }
 
   public fillText(text: string, x: number, y: number): void {
     this.operations.push(`fillText:${text}@${x},${y}`);
   }
 
+  public strokeText(text: string, x: number, y: number): void {
+    this.operations.push(`strokeText:${text}@${x},${y}`);
+  }
+
   public getImageData(
     _sx: number,
     _sy: number,
@@ -85,44 +180,106 @@ class FakeCanvasRenderingContext2D {
   ): ImageData {
     const data = new Uint8ClampedArray(sw * sh * 4);
 
-    for (let index = 0; index < data.length; index += 4) {
-      data[index] = 255;
-      data[index + 1] = 64;
-      data[index + 2] = 32;
-      data[index + 3] = 255;
+    for (let y = 0; y < sh; y++) {
+      for (let x = 0; x < sw; x++) {
+        const index = (y * sw + x) * 4;
+        const [r, g, b, a] = this.canvas.pixels((x + 0.5) / sw, (y + 0.5) / sh);
+        data[index] = r;
+        data[index + 1] = g;
+        data[index + 2] = b;
+        data[index + 3] = a;
+      }
     }
 
     return { data } as ImageData;
   }
+
+  public createImageData(width: number, height: number): ImageData {
+    return {
+      data: new Uint8ClampedArray(width * height * 4),
+      width,
+      height,
+    } as ImageData;
+  }
+
+  public putImageData(imageData: ImageData, dx: number, dy: number): void {
+    const { data, width, height } = imageData;
+    this.operations.push(`putImageData:${width}x${height}@${dx},${dy}`);
+    this.canvas.pixels = (u, v) => {
+      const x = Math.min(width - 1, Math.floor(u * width));
+      const y = Math.min(height - 1, Math.floor(v * height));
+      const index = (y * width + x) * 4;
+      return [data[index], data[index + 1], data[index + 2], data[index + 3]];
+    };
+  }
 }
 
-class FakeCanvas {
+abstract class FakeSurface {
   public width = 300;
   public height = 150;
-  public style: Record<string, string> = {};
+  public pixels: PixelSource = DEFAULT_PIXEL;
   private readonly context = new FakeCanvasRenderingContext2D(this);
 
   public getContext(type: string): FakeCanvasRenderingContext2D | null {
     return type === "2d" ? this.context : null;
   }
 
-  public toDataURL(type = "image/png"): string {
-    const payload = Buffer.from(
+  public get operations(): string[] {
+    return this.context.operations;
+  }
+
+  protected serialize(type: string): Buffer {
+    return Buffer.from(
       JSON.stringify({ width: this.width, height: this.height, type }),
       "utf8",
-    ).toString("base64");
+    );
+  }
+}
 
-    return `data:${type};base64,${payload}`;
+class FakeCanvas extends FakeSurface {
+  public style: Record<string, string> = {};
+
+  public toDataURL(type = "image/png"): string {
+    return `data:${type};base64,${this.serialize(type).toString("base64")}`;
   }
 
-  public get operations(): string[] {
-    return this.context.operations;
+  public toBlob(
+    callback: (blob: Blob | null) => void,
+    type = "image/png",
+  ): void {
+    const payload = this.toDataURL(type).split(",")[1] ?? "";
+    queueMicrotask(() =>
+      callback(new Blob([Buffer.from(payload, "base64")], { type })),
+    );
+  }
+}
+
+class FakeOffscreenCanvas extends FakeSurface {
+  constructor(width: number, height: number) {
+    super();
+    this.width = width;
+    this.height = height;
+  }
+
+  public async convertToBlob(options: { type?: string } = {}): Promise<Blob> {
+    const type = options.type ?? "image/png";
+    return new Blob([this.serialize(type)], { type });
   }
 }
 
+class FakeImageBitmap {
+  constructor(
+    public readonly width: number,
+    public readonly height: number,
+    public readonly pixels: PixelSource = DEFAULT_PIXEL,
+  ) {}
+}
+
 export function installFakeCanvasDom(): void {
   const globalObject = globalThis as typeof globalThis & {
     HTMLCanvasElement?: typeof FakeCanvas;
+    OffscreenCanvas?: typeof FakeOffscreenCanvas;
+    ImageBitmap?: typeof FakeImageBitmap;
     document?: { createElement: (tagName: string) => FakeCanvas };
     btoa?: (value: string) => string;
     atob?: (value: string) => string;
@@ -131,6 +288,9 @@ export function installFakeCanvasDom(): void {
 
   globalObject.HTMLCanvasElement =
     FakeCanvas as unknown as typeof HTMLCanvasElement;
+  globalObject.OffscreenCanvas =
+    FakeOffscreenCanvas as unknown as typeof OffscreenCanvas;
+  globalObject.ImageBitmap = FakeImageBitmap as unknown as typeof ImageBitmap;
   globalObject.document = {
     createElement(tagName: string): FakeCanvas {
       if (tagName !== "canvas") {
@@ -149,13 +309,53 @@ export function installFakeCanvasDom(): void {
   }
 }
 
-export function createCanvas(width = 128, height = 128): HTMLCanvasElement {
+export function createCanvas(
+  width = 128,
+  height = 128,
+  pixels?: PixelSource,
+): HTMLCanvasElement {
   const canvas = new FakeCanvas();
   canvas.width = width;
   canvas.height = height;
+  canvas.pixels = pixels ?? DEFAULT_PIXEL;
   return canvas as unknown as HTMLCanvasElement;
 }
 
+export function createOffscreenCanvas(
+  width = 128,
+  height = 128,
+  pixels?: PixelSource,
+): OffscreenCanvas {
+  const canvas = new FakeOffscreenCanvas(width, height);
+  canvas.pixels = pixels ?? DEFAULT_PIXEL;
+  return canvas as unknown as OffscreenCanvas;
+}
+
+export function createImageBitmap(
+  width = 128,
+  height = 128,
+  pixels?: PixelSource,
+): ImageBitmap {
+  return new FakeImageBitmap(width, height, pixels) as unknown as ImageBitmap;
+}
+
+/**
+ * Runs a callback without `document`, like inside a Web Worker.
+ */
+export async function withoutDocument<T>(
+  callback: () => T | Promise<T>,
+): Promise<T> {
+  const globalObject = globalThis as { document?: unknown };
+  const original = globalObject.document;
+  delete globalObject.document;
+
+  try {
+    return await callback();
+  } finally {
+    globalObject.document = original;
+  }
+}
+
 export function readPngMeta(dataUrl: string): {
   width: number;
   height: number;
@@ -165,13 +365,23 @@ export function readPngMeta(dataUrl: string): {
   return JSON.parse(Buffer.from(payload, "base64").toString("utf8"));
 }
 
+export function readPngMetaFromBytes(bytes: Uint8Array): {
+  width: number;
+  height: number;
+  type: string;
+} {
+  return JSON.parse(Buffer.from(bytes).toString("utf8"));
+}
+
 export function decodeIco(dataUrl: string): Uint8Array {
   const payload = dataUrl.split(",")[1] ?? "";
   return new Uint8Array(Buffer.from(payload, "base64"));
 }
 
-export function getCanvasOperations(canvas: HTMLCanvasElement): string[] {
-  return (canvas as unknown as FakeCanvas).operations;
+export function getCanvasOperations(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+): string[] {
+  return (canvas as unknown as FakeSurface).operations;
 }
 
 export function setDevicePixelRatio(value: number): void {
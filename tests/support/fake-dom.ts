@@ -0,0 +1,146 @@
+class FakeNode {
+  public parentNode: FakeParent | null = null;
+
+  public get nextSibling(): FakeNode | null {
+    if (!this.parentNode) return null;
+    const siblings = this.parentNode.childNodes;
+    return siblings[siblings.indexOf(this) + 1] ?? null;
+  }
+
+  public remove(): void {
+    this.parentNode?.removeChild(this);
+  }
+}
+
+class FakeElement extends FakeNode {
+  private readonly attributes = new Map<string, string>();
+
+  constructor(public readonly tagName: string) {
+    super();
+  }
+
+  public getAttribute(name: string): string | null {
+    return this.attributes.get(name) ?? null;
+  }
+
+  public setAttribute(name: string, value: string): void {
+    this.attributes.set(name, value);
+  }
+
+  public get outerHTML(): string {
+    const attributes = [...this.attributes]
+      .map(([name, value]) => ` ${name}="${value}"`)
+      .join("");
+    return `<${this.tagName}${attributes}>`;
+  }
+}
+
+class FakeParent extends FakeElement {
+  public readonly childNodes: FakeNode[] = [];
+
+  public appendChild(node: FakeNode): FakeNode {
+    node.remove();
+    node.parentNode = this;
+    this.childNodes.push(node);
+    return node;
+  }
+
+  public insertBefore(node: FakeNode, reference: FakeNode | null): FakeNode {
+    if (!reference) return this.appendChild(node);
+    node.remove();
+    node.parentNode = this;
+    this.childNodes.splice(this.childNodes.indexOf(reference), 0, node);
+    return node;
+  }
+
+  public removeChild(node: FakeNode): FakeNode {
+    this.childNodes.splice(this.childNodes.indexOf(node), 1);
+    node.parentNode = null;
+    return node;
+  }
+}
+
+class FakeDocument {
+  public readonly head = new FakeParent("head");
+  public visibilityState: DocumentVisibilityState = "visible";
+  private readonly listeners = new Map<string, Set<() => void>>();
+
+  public addEventListener(type: string, listener: () => void): void {
+    const listeners = this.listeners.get(type) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(type, listeners);
+  }
+
+  public removeEventListener(type: string, listener: () => void): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  public dispatchEvent(type: string): void {
+    for (const listener of this.listeners.get(type) ?? []) {
+      listener();
+    }
+  }
+
+  public listenerCount(type: string): number {
+    return this.listeners.get(type)?.size ?? 0;
+  }
+
+  public createElement(tagName: string): FakeElement {
+    return new FakeElement(tagName);
+  }
+
+  public querySelectorAll(selector: string): FakeElement[] {
+    return this.head.childNodes.filter(
+      (node): node is FakeElement =>
+        node instanceof FakeElement && node.tagName === selector,
+    );
+  }
+}
+
+/**
+ * Creates a document whose head contains the given elements, written as
+ * `[tagName, attributes]` pairs.
+ */
+export function createDocument(
+  elements: Array<[string, Record<string, string>]> = [],
+): Document {
+  const document = new FakeDocument();
+
+  for (const [tagName, attributes] of elements) {
+    const element = document.createElement(tagName);
+    for (const [name, value] of Object.entries(attributes)) {
+      element.setAttribute(name, value);
+    }
+    document.head.appendChild(element);
+  }
+
+  return document as unknown as Document;
+}
+
+/**
+ * Serializes the head of a fake document, one element per entry.
+ */
+export function readHead(document: Document): string[] {
+  return (document as unknown as FakeDocument).head.childNodes.map(
+    (node) => (node as FakeElement).outerHTML,
+  );
+}
+
+/**
+ * Changes the visibility state of a fake document and fires `visibilitychange`.
+ */
+export function setVisibilityState(
+  document: Document,
+  state: DocumentVisibilityState,
+): void {
+  const fake = document as unknown as FakeDocument;
+  fake.visibilityState = state;
+  fake.dispatchEvent("visibilitychange");
+}
+
+/**
+ * Counts the listeners registered on a fake document for an event type.
+ */
+export function getListenerCount(document: Document, type: string): number {
+  return (document as unknown as FakeDocument).listenerCount(type);
+}